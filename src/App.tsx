@@ -1,29 +1,189 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './components/ui/tabs';
 import { UploadView } from './components/UploadView';
 import { DashboardView } from './components/DashboardView';
-import { Upload, BarChart3, Shield, AlertTriangle } from 'lucide-react';
+import { Upload, BarChart3, Shield, AlertTriangle, CheckCircle, X, Trash2, SlidersHorizontal, Brain } from 'lucide-react';
 import { Card } from './components/ui/card';
+import { Alert, AlertDescription } from './components/ui/alert';
+import { Button } from './components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from './components/ui/alert-dialog';
+import type { SensorReading } from './utils/timeSeries';
+import type { QualityFlag } from './utils/dataQuality';
+import { MergeMode, MergeSummary, mergeFleet } from './utils/fleetMerge';
+import { AssetInfo, AssetRegistry, applyAssets, loadAssetRegistry, rememberAssets } from './utils/assets';
+import { UploadHistory } from './components/UploadHistory';
+import { RuleEditor } from './components/RuleEditor';
+import { ModelTrainer } from './components/ModelTrainer';
+import { DEFAULT_RULE_LIBRARY, RuleLibrary, RuleSet, deleteRuleSet, loadRuleLibrary, saveRuleSet } from './utils/riskRules';
+import { RiskFactor, rescoreFleet } from './utils/riskAnalysis';
+import { ScoringEngine, ScoringSettings, riskModelFor } from './utils/riskModels';
+import type { RemainingLife } from './utils/remainingLife';
+import { FailureModel, loadFailureModel, saveFailureModel } from './utils/failureModel';
+import { UploadInfo, UploadRecord, deleteUpload, recordUpload, renameUpload } from './utils/uploadHistory';
+import {
+  DEFAULT_DASHBOARD_VIEW,
+  DEFAULT_PREFERENCES,
+  DashboardViewState,
+  Preferences,
+  clearLocalData,
+  loadWorkspace,
+  saveWorkspace
+} from './utils/workspace';
 
+// One row per machine. temp, vibration and runtime hold the latest reading;
+// the full history is kept in readings, oldest first.
 export interface MachineData {
   machine_id: string;
   temp: number;
   vibration: number;
   runtime: number;
-  risk_level: 'Healthy' | 'At Risk' | 'Critical';
+  // Insufficient data when the readings are too unreliable to judge by
+  risk_level: 'Healthy' | 'At Risk' | 'Critical' | 'Insufficient data';
   risk_score: number;
   prediction_confidence: number;
+  reading_count: number;
+  last_reading_at?: number;
+  temp_trend: number;
+  vibration_trend: number;
+  // Latest value of each extra sensor channel the machine reports
+  sensors: Record<string, number>;
+  // 0-1 rating of the readings the score rests on, and how many readings had each problem
+  data_quality: number;
+  quality_flags: Partial<Record<QualityFlag, number>>;
+  asset?: AssetInfo;
+  readings: SensorReading[];
+  // Scoring engine and version that produced risk_score (see riskAnalysis.ts)
+  engine_version: string;
+  // Name and version of the rule set the machine was judged by (see
+  // riskRules.ts), or the name of the trained model that scored it
+  rule_set: string;
+  // What risk_score is made of, largest contributions included
+  risk_factors: RiskFactor[];
+  // Time until the rule thresholds are reached at the current trend; absent
+  // without enough time-stamped history or a clearly worsening trend
+  remaining_life?: RemainingLife;
 }
 
 export default function App() {
   const [machineData, setMachineData] = useState<MachineData[]>([]);
   const [activeTab, setActiveTab] = useState('upload');
+  const [mergeSummary, setMergeSummary] = useState<MergeSummary | null>(null);
+  // Asset metadata outlives the fleet, so uploads without it still show it
+  const [assets, setAssets] = useState<AssetRegistry>(loadAssetRegistry);
+  const [uploadHistory, setUploadHistory] = useState<UploadRecord[]>([]);
+  const [ruleLibrary, setRuleLibrary] = useState<RuleLibrary>(loadRuleLibrary);
+  const [failureModel, setFailureModel] = useState<FailureModel | null>(loadFailureModel);
+  const [dashboardView, setDashboardView] = useState<DashboardViewState>(DEFAULT_DASHBOARD_VIEW);
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  // Nothing is saved until the stored workspace has been read, so it is not overwritten with empty state
+  const [isRestoring, setIsRestoring] = useState(true);
+  // Set while local data is cleared, so the reset state is not saved straight
+  // back into a freshly created database
+  const isClearingRef = useRef(false);
+  const scoring = useMemo<ScoringSettings>(
+    () => ({ engine: preferences.scoringEngine, ruleSets: ruleLibrary.sets, failureModel: failureModel ?? undefined, assets }),
+    [preferences.scoringEngine, ruleLibrary, failureModel, assets]
+  );
+
+  useEffect(() => {
+    loadWorkspace().then(workspace => {
+      if (workspace.fleet && workspace.fleet.length > 0) {
+        setMachineData(applyAssets(workspace.fleet, assets));
+        setActiveTab('dashboard');
+      }
+      if (workspace.uploadHistory) setUploadHistory(workspace.uploadHistory);
+      if (workspace.dashboardView) setDashboardView({ ...DEFAULT_DASHBOARD_VIEW, ...workspace.dashboardView });
+      if (workspace.preferences) setPreferences({ ...DEFAULT_PREFERENCES, ...workspace.preferences });
+      setIsRestoring(false);
+    });
+  }, []);
+
+  const shouldSave = () => !isRestoring && !isClearingRef.current;
+  useEffect(() => { if (shouldSave()) saveWorkspace('fleet', machineData); }, [isRestoring, machineData]);
+  useEffect(() => { if (shouldSave()) saveWorkspace('uploadHistory', uploadHistory); }, [isRestoring, uploadHistory]);
+  useEffect(() => { if (shouldSave()) saveWorkspace('dashboardView', dashboardView); }, [isRestoring, dashboardView]);
+  useEffect(() => { if (shouldSave()) saveWorkspace('preferences', preferences); }, [isRestoring, preferences]);
+  // Runs after the saves above, so only the render with the reset state skips them
+  useEffect(() => { isClearingRef.current = false; });
+
+  const handleClearLocalData = async () => {
+    await clearLocalData();
+    isClearingRef.current = true;
+    setMachineData([]);
+    setMergeSummary(null);
+    setAssets({});
+    setUploadHistory([]);
+    setDashboardView(DEFAULT_DASHBOARD_VIEW);
+    setPreferences(DEFAULT_PREFERENCES);
+    setRuleLibrary(DEFAULT_RULE_LIBRARY);
+    setFailureModel(null);
+    setActiveTab('upload');
+  };
+
+  const handleDataProcessed = (data: MachineData[], mode: MergeMode, upload: UploadInfo) => {
+    setUploadHistory(recordUpload(uploadHistory, data, upload));
+    const registry = rememberAssets(assets, data);
+    const merged = mergeFleet(machineData, data, mode);
+    setAssets(registry);
+    setMachineData(applyAssets(merged.data, registry));
+    setMergeSummary(merged.summary);
+    setActiveTab('dashboard');
+  };
 
-  const handleDataProcessed = (data: MachineData[]) => {
-    setMachineData(data);
+  // Reopening shows the upload as it was scored, in place of the current fleet
+  const handleUploadOpened = (record: UploadRecord) => {
+    const merged = mergeFleet(machineData, record.machines, 'replace');
+    setMachineData(applyAssets(merged.data, assets));
+    setMergeSummary(merged.summary);
     setActiveTab('dashboard');
   };
 
+  const uploadHistoryPanel = (
+    <UploadHistory
+      history={uploadHistory}
+      onOpen={handleUploadOpened}
+      onRename={(id, name) => setUploadHistory(renameUpload(uploadHistory, id, name))}
+      onDelete={(id) => setUploadHistory(deleteUpload(uploadHistory, id))}
+    />
+  );
+
+  // Changed rules apply to the whole fleet at once, so no machine shows a stale level
+  const handleRulesChanged = (library: RuleLibrary) => {
+    setRuleLibrary(library);
+    setMachineData(rescoreFleet(machineData, riskModelFor({ ...scoring, ruleSets: library.sets })));
+  };
+
+  // Deleting the model in use hands scoring back to the rules
+  const handleModelSaved = (model: FailureModel | null) => {
+    saveFailureModel(model);
+    setFailureModel(model);
+    if (scoring.engine !== 'failure-model') return;
+    const engine = model ? scoring.engine : 'rules';
+    setPreferences({ ...preferences, scoringEngine: engine });
+    setMachineData(rescoreFleet(machineData, riskModelFor({ ...scoring, engine, failureModel: model ?? undefined })));
+  };
+
+  // Every machine is scored again, so the fleet never mixes engines
+  const handleScoringEngineChange = (scoringEngine: ScoringEngine) => {
+    setPreferences({ ...preferences, scoringEngine });
+    setMachineData(rescoreFleet(machineData, riskModelFor({ ...scoring, engine: scoringEngine })));
+  };
+
+  // Machines entered or edited by hand replace their previous version in place
+  const handleMachineSaved = (machine: MachineData) => {
+    setMachineData(applyAssets(mergeFleet(machineData, [machine], 'upsert').data, assets));
+  };
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -58,6 +218,12 @@ export default function App() {
                 <div className="w-3 h-3 rounded-full bg-red-500"></div>
                 <span>Critical: {machineData.filter(m => m.risk_level === 'Critical').length}</span>
               </div>
+              {machineData.some(m => m.risk_level === 'Insufficient data') && (
+                <div className="flex items-center gap-2">
+                  <div className="w-3 h-3 rounded-full bg-gray-400"></div>
+                  <span>Insufficient data: {machineData.filter(m => m.risk_level === 'Insufficient data').length}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -65,7 +231,9 @@ export default function App() {
 
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6">
-        {machineData.length === 0 && activeTab === 'upload' ? (
+        {isRestoring ? (
+          <p className="text-center text-muted-foreground py-12">Restoring your workspace...</p>
+        ) : machineData.length === 0 && activeTab === 'upload' ? (
           // Welcome State
           <div className="text-center space-y-6 py-12">
             <div className="w-20 h-20 mx-auto bg-primary/10 rounded-2xl flex items-center justify-center mb-6">
@@ -80,33 +248,96 @@ export default function App() {
             
             <UploadView 
               onDataProcessed={handleDataProcessed}
-              existingDataCount={machineData.length}
+              onMachineSaved={handleMachineSaved}
+              machines={machineData}
+              mergeMode={preferences.mergeMode}
+              onMergeModeChange={(mergeMode) => setPreferences({ ...preferences, mergeMode })}
+              scoring={scoring}
             />
+            <div className="text-left">{uploadHistoryPanel}</div>
           </div>
         ) : (
-          <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-6">
-              <TabsTrigger value="upload" className="flex items-center gap-2">
-                <Upload className="w-4 h-4" />
-                Data Upload
-              </TabsTrigger>
-              <TabsTrigger value="dashboard" className="flex items-center gap-2">
-                <BarChart3 className="w-4 h-4" />
-                Dashboard
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="upload" className="space-y-6">
-              <UploadView 
-                onDataProcessed={handleDataProcessed}
-                existingDataCount={machineData.length}
-              />
-            </TabsContent>
-
-            <TabsContent value="dashboard" className="space-y-6">
-              <DashboardView machineData={machineData} />
-            </TabsContent>
-          </Tabs>
+          <>
+            {mergeSummary && (
+              <Alert className="mb-6">
+                <CheckCircle className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  <span>
+                    {mergeSummary.mode === 'replace'
+                      ? `Loaded ${mergeSummary.added} machines${mergeSummary.removed > 0 ? `, replacing ${mergeSummary.removed}` : ''}.`
+                      : `${mergeSummary.added} machines added, ${mergeSummary.updated} updated, ${mergeSummary.unchanged} unchanged.`}
+                    {' '}The fleet now has {machineData.length} machines.
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setMergeSummary(null)} aria-label="Dismiss">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+              <TabsList className="grid w-full grid-cols-4 mb-6">
+                <TabsTrigger value="upload" className="flex items-center gap-2">
+                  <Upload className="w-4 h-4" />
+                  Data Upload
+                </TabsTrigger>
+                <TabsTrigger value="dashboard" className="flex items-center gap-2">
+                  <BarChart3 className="w-4 h-4" />
+                  Dashboard
+                </TabsTrigger>
+                <TabsTrigger value="rules" className="flex items-center gap-2">
+                  <SlidersHorizontal className="w-4 h-4" />
+                  Risk Rules
+                </TabsTrigger>
+                <TabsTrigger value="model" className="flex items-center gap-2">
+                  <Brain className="w-4 h-4" />
+                  Failure Model
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="upload" className="space-y-6">
+                <UploadView 
+                  onDataProcessed={handleDataProcessed}
+                  onMachineSaved={handleMachineSaved}
+                  machines={machineData}
+                  mergeMode={preferences.mergeMode}
+                  onMergeModeChange={(mergeMode) => setPreferences({ ...preferences, mergeMode })}
+                  scoring={scoring}
+                />
+                {uploadHistoryPanel}
+              </TabsContent>
+
+              <TabsContent value="dashboard" className="space-y-6">
+                <DashboardView
+                  machineData={machineData}
+                  onMachineSaved={handleMachineSaved}
+                  initialView={dashboardView}
+                  onViewChange={setDashboardView}
+                  unitSystem={preferences.unitSystem}
+                  onUnitSystemChange={(unitSystem) => setPreferences({ ...preferences, unitSystem })}
+                  scoring={scoring}
+                  onScoringEngineChange={handleScoringEngineChange}
+                />
+              </TabsContent>
+
+              <TabsContent value="rules" className="space-y-6">
+                <RuleEditor
+                  library={ruleLibrary}
+                  machines={machineData}
+                  onSave={(ruleSet: RuleSet) => handleRulesChanged(saveRuleSet(ruleLibrary, ruleSet))}
+                  onDelete={(id) => handleRulesChanged(deleteRuleSet(ruleLibrary, id))}
+                />
+              </TabsContent>
+
+              <TabsContent value="model" className="space-y-6">
+                <ModelTrainer
+                  savedModel={failureModel}
+                  scoringEngine={preferences.scoringEngine}
+                  onSave={handleModelSaved}
+                  onScoringEngineChange={handleScoringEngineChange}
+                />
+              </TabsContent>
+            </Tabs>
+          </>
         )}
       </div>
 
@@ -115,10 +346,30 @@ export default function App() {
         <div className="container mx-auto px-4 py-4">
           <div className="flex items-start gap-3 text-sm text-muted-foreground">
             <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-600" />
-            <div>
+            <div className="flex-1">
               <p className="font-medium text-foreground mb-1">Ethical AI Notice</p>
-              <p>This tool uses AI predictions that may contain bias. Always verify critical decisions with human expertise. Data is processed locally for privacy. Consider environmental impact and accessibility in deployment.</p>
+              <p>This tool uses AI predictions that may contain bias. Always verify critical decisions with human expertise. Data is processed locally for privacy and saved only in this browser. Consider environmental impact and accessibility in deployment.</p>
             </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Clear local data
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear local data?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Removes the current fleet, upload history, saved column mappings, asset metadata, rule sets, the trained failure model and preferences from this browser. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleClearLocalData}>Clear local data</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           </div>
         </div>
       </div>
@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertCircle, ArrowLeft, Brain, Columns, Plus, Save, Trash2 } from 'lucide-react';
+import { UnitSelector } from './UnitSelector';
+import { UnitSelection, unitsFromHeaders } from '../utils/units';
+import {
+  ColumnMapping,
+  FIELD_LABELS,
+  MAPPABLE_FIELDS,
+  MappingProfile,
+  MappingTarget,
+  REQUIRED_FIELDS,
+  applyProfile,
+  deleteMappingProfile,
+  loadMappingProfiles,
+  mappingProblems,
+  saveMappingProfile,
+  sensorKey,
+  sensorTarget
+} from '../utils/columnMapping';
+import { SENSOR_CHANNELS, adHocChannelKey, channelLabel, isCoreChannel, isRegisteredChannel } from '../utils/sensors';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  sampleRows: string[][];
+  mapping: ColumnMapping;
+  appliedProfile: string | null;
+  units: UnitSelection;
+  onMappingChange: (mapping: ColumnMapping, profileName: string | null) => void;
+  onUnitsChange: (units: UnitSelection) => void;
+  // Offered for JSON sources, whose records may carry fields the sample did not show
+  onAddHeader?: (header: string) => void;
+  onBack: () => void;
+  onConfirm: () => void;
+}
+
+const IGNORE = '__ignore__';
+const SAMPLE_VALUES = 3;
+
+const EXTRA_CHANNELS = SENSOR_CHANNELS.filter(channel => !isCoreChannel(channel.key));
+
+// Sensor choices for a column: the registered extra channels, and a channel
+// named after the column itself for sensors the registry does not know
+function sensorOptions(header: string, current: MappingTarget | null): { value: string; label: string }[] {
+  const options = EXTRA_CHANNELS.map(channel => ({ value: sensorTarget(channel.key), label: `Sensor: ${channelLabel(channel)}` }));
+  const keys = new Set([adHocChannelKey(header), sensorKey(current)]);
+  keys.forEach(key => {
+    if (key && !isRegisteredChannel(key)) options.push({ value: sensorTarget(key), label: `Sensor: ${key}` });
+  });
+  return options;
+}
+
+export function ColumnMappingStep({
+  headers,
+  sampleRows,
+  mapping,
+  appliedProfile,
+  units,
+  onMappingChange,
+  onUnitsChange,
+  onAddHeader,
+  onBack,
+  onConfirm
+}: ColumnMappingStepProps) {
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [profileName, setProfileName] = useState(appliedProfile ?? '');
+  const [newPath, setNewPath] = useState('');
+
+  const problems = mappingProblems(mapping);
+
+  const handleFieldChange = (header: string, value: string) => {
+    onMappingChange({ ...mapping, [header]: value === IGNORE ? null : value as MappingTarget }, null);
+  };
+
+  const handleAddPath = () => {
+    const path = newPath.trim();
+    if (!path || !onAddHeader) return;
+    onAddHeader(path);
+    setNewPath('');
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    setProfiles(saveMappingProfile(name, headers, mapping, units));
+    onMappingChange(mapping, name);
+  };
+
+  const handleApplyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setProfileName(profile.name);
+    onMappingChange(applyProfile(profile, headers), profile.name);
+    if (profile.units) onUnitsChange(profile.units);
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    setProfiles(deleteMappingProfile(name));
+    if (appliedProfile === name) onMappingChange(mapping, null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns className="w-5 h-5" />
+          Map Columns
+        </CardTitle>
+        <CardDescription>
+          Assign each column in your file to a machine data field or sensor channel, or ignore it. Numeric columns without a known channel are imported as sensors under their own name.
+          {appliedProfile && (
+            <> Using saved profile <strong>{appliedProfile}</strong>.</>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Source column</TableHead>
+                <TableHead>Sample values</TableHead>
+                <TableHead className="w-56">Maps to</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {headers.map((header, index) => (
+                <TableRow key={`${index}-${header}`}>
+                  <TableCell className="font-mono">{header || <span className="text-muted-foreground">(unnamed)</span>}</TableCell>
+                  <TableCell className="font-mono text-sm text-muted-foreground">
+                    {sampleRows.slice(0, SAMPLE_VALUES).map(row => row[index] ?? '').join(', ')}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={mapping[header] ?? IGNORE}
+                      onValueChange={(value) => handleFieldChange(header, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Ignore</SelectItem>
+                        {MAPPABLE_FIELDS.map(field => (
+                          <SelectItem key={field} value={field}>
+                            {FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                          </SelectItem>
+                        ))}
+                        {sensorOptions(header, mapping[header] ?? null).map(option => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {onAddHeader && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Input
+              placeholder="Field path, e.g. sensors.temperature.value"
+              value={newPath}
+              onChange={(e) => setNewPath(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddPath()}
+              className="sm:max-w-xs font-mono"
+            />
+            <Button variant="outline" onClick={handleAddPath} disabled={!newPath.trim()}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Field Path
+            </Button>
+          </div>
+        )}
+
+        {problems.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{problems.join('. ')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Units */}
+        <div className="space-y-3">
+          <p className="font-medium text-sm">Units in this file</p>
+          <UnitSelector
+            units={units}
+            detected={unitsFromHeaders(headers, mapping)}
+            onUnitsChange={onUnitsChange}
+          />
+        </div>
+
+        {/* Mapping Profiles */}
+        <div className="space-y-3">
+          <p className="font-medium text-sm">Mapping profiles</p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Input
+              placeholder="Profile name, e.g. Plant historian"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              className="sm:max-w-xs"
+            />
+            <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim() || problems.length > 0}>
+              <Save className="w-4 h-4 mr-2" />
+              Save Profile
+            </Button>
+          </div>
+          {profiles.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {profiles.map(profile => (
+                <Badge
+                  key={profile.name}
+                  variant={profile.name === appliedProfile ? 'default' : 'outline'}
+                  className="gap-1 pr-1"
+                >
+                  <button type="button" onClick={() => handleApplyProfile(profile.name)}>
+                    {profile.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteProfile(profile.name)}
+                    aria-label={`Delete profile ${profile.name}`}
+                    className="opacity-60 hover:opacity-100"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-end">
+          <Button variant="outline" onClick={onBack}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          <Button onClick={onConfirm} disabled={problems.length > 0}>
+            <Brain className="w-4 h-4 mr-2" />
+            Run AI Analysis
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
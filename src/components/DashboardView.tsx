@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Input } from './ui/input';
@@ -6,29 +6,135 @@ import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from './ui/hover-card';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { Search, Filter, Download, AlertTriangle, TrendingUp, Activity } from 'lucide-react';
+import { Search, Filter, Download, AlertTriangle, TrendingUp, Activity, ArrowUpRight, Pencil } from 'lucide-react';
 import { MachineData } from '../App';
+import { MachineEditor } from './MachineEditor';
+import { UNIT_LABELS, UNIT_SYSTEMS, UnitSystem, deltaFromCanonical, fromCanonical } from '../utils/units';
+import { channelLabel, extraChannelKeys, sensorChannel } from '../utils/sensors';
+import { reachesTopLevel, ruleFor, ruleSetFor } from '../utils/riskRules';
+import { explainRiskFactor, riskFactorShares } from '../utils/riskAnalysis';
+import { RISK_ENGINES, ScoringEngine, ScoringSettings, engineInfo } from '../utils/riskModels';
+import { formatLifeHours } from '../utils/remainingLife';
+import { sensorKey, sensorTarget } from '../utils/columnMapping';
+import { ASSET_FIELDS, ASSET_LABELS, AssetField, assetText } from '../utils/assets';
+import { formatCsvField } from '../utils/csv';
+import { MIN_DATA_QUALITY, QUALITY_FLAG_LABELS, QualityFlag } from '../utils/dataQuality';
+import { DashboardViewState } from '../utils/workspace';
+
+// Readings with each quality problem, e.g. "2 readings: Outside operating range"
+function qualitySummary(machine: MachineData): string {
+  const entries = Object.entries(machine.quality_flags) as [QualityFlag, number][];
+  if (entries.length === 0) return 'No quality problems found';
+  return entries.map(([flag, count]) => `${count} ${count === 1 ? 'reading' : 'readings'}: ${QUALITY_FLAG_LABELS[flag]}`).join('\n');
+}
 
 interface DashboardViewProps {
   machineData: MachineData[];
+  onMachineSaved: (machine: MachineData) => void;
+  // Filters, search and sort order to start from, e.g. as restored after a reload
+  initialView: DashboardViewState;
+  onViewChange: (view: DashboardViewState) => void;
+  unitSystem: UnitSystem;
+  onUnitSystemChange: (system: UnitSystem) => void;
+  // Active engine with the current rule sets and saved model
+  scoring: ScoringSettings;
+  onScoringEngineChange: (engine: ScoringEngine) => void;
 }
 
-export function DashboardView({ machineData }: DashboardViewProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<string>('risk_score');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+export function DashboardView({
+  machineData,
+  onMachineSaved,
+  initialView,
+  onViewChange,
+  unitSystem,
+  onUnitSystemChange,
+  scoring,
+  onScoringEngineChange
+}: DashboardViewProps) {
+  const [searchTerm, setSearchTerm] = useState(initialView.searchTerm);
+  const [statusFilter, setStatusFilter] = useState<string>(initialView.statusFilter);
+  const [assetFilters, setAssetFilters] = useState<Partial<Record<AssetField, string>>>(initialView.assetFilters);
+  const [groupBy, setGroupBy] = useState<AssetField | 'none'>(initialView.groupBy);
+  const [sortBy, setSortBy] = useState<string>(initialView.sortBy);
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(initialView.sortOrder);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const editingMachine = machineData.find(machine => machine.machine_id === editingId);
+
+  // Values are stored in °C and mm/s and converted only for display and export
+  const displayUnits = UNIT_SYSTEMS[unitSystem];
+  const tempLabel = UNIT_LABELS.temp[displayUnits.temp];
+  const vibrationLabel = UNIT_LABELS.vibration[displayUnits.vibration];
+
+  useEffect(() => {
+    onViewChange({ searchTerm, statusFilter, assetFilters, groupBy, sortBy, sortOrder });
+  }, [searchTerm, statusFilter, assetFilters, groupBy, sortBy, sortOrder]);
+
+  // Extra sensor channels reported by any machine each get a column
+  const sensorKeys = useMemo(() => extraChannelKeys(machineData.map(machine => machine.sensors)), [machineData]);
+
+  // Asset metadata fields any machine has, and the values each can be filtered by
+  const assetFields = useMemo(
+    () => ASSET_FIELDS.filter(field => machineData.some(machine => assetText(machine.asset, field) !== '')),
+    [machineData]
+  );
+  const assetValues = useMemo(() => {
+    const values: Partial<Record<AssetField, string[]>> = {};
+    for (const field of assetFields) {
+      const distinct = new Set(machineData.map(machine => assetText(machine.asset, field)).filter(value => value !== ''));
+      values[field] = Array.from(distinct).sort();
+    }
+    return values;
+  }, [machineData, assetFields]);
+  // Install dates are nearly unique per machine, so they are shown but not offered as filters or groups
+  const filterableAssetFields = assetFields.filter(field => field !== 'install_date');
 
   // Filter and sort data
   const filteredData = useMemo(() => {
+    const term = searchTerm.toLowerCase();
     let filtered = machineData.filter(machine => {
-      const matchesSearch = machine.machine_id.toLowerCase().includes(searchTerm.toLowerCase());
+      const matchesSearch = machine.machine_id.toLowerCase().includes(term) ||
+        ASSET_FIELDS.some(field => assetText(machine.asset, field).toLowerCase().includes(term));
       const matchesStatus = statusFilter === 'all' || machine.risk_level === statusFilter;
-      return matchesSearch && matchesStatus;
+      const matchesAsset = Object.entries(assetFilters).every(
+        ([field, value]) => assetText(machine.asset, field as AssetField) === value
+      );
+      return matchesSearch && matchesStatus && matchesAsset;
     });
 
+    const sortSensor = sensorKey(sortBy);
     return filtered.sort((a, b) => {
+      // Grouped tables keep each group together, with machines lacking the field last
+      if (groupBy !== 'none') {
+        const aGroup = assetText(a.asset, groupBy);
+        const bGroup = assetText(b.asset, groupBy);
+        if (aGroup !== bGroup) {
+          return aGroup === '' ? 1 : bGroup === '' ? -1 : aGroup.localeCompare(bGroup);
+        }
+      }
+
+      if (sortBy === 'remaining_life') {
+        // Machines without an estimate go last in either order
+        const aHours = a.remaining_life?.hours;
+        const bHours = b.remaining_life?.hours;
+        if (aHours === undefined || bHours === undefined) {
+          return (aHours === undefined ? 1 : 0) - (bHours === undefined ? 1 : 0);
+        }
+        return sortOrder === 'asc' ? aHours - bHours : bHours - aHours;
+      }
+
+      if (sortSensor !== undefined) {
+        // Machines without the sensor go last in either order
+        const aReading = a.sensors[sortSensor];
+        const bReading = b.sensors[sortSensor];
+        if (aReading === undefined || bReading === undefined) {
+          return (aReading === undefined ? 1 : 0) - (bReading === undefined ? 1 : 0);
+        }
+        return sortOrder === 'asc' ? aReading - bReading : bReading - aReading;
+      }
+
       const aValue = a[sortBy as keyof MachineData];
       const bValue = b[sortBy as keyof MachineData];
       
@@ -40,11 +146,41 @@ export function DashboardView({ machineData }: DashboardViewProps) {
         ? String(aValue).localeCompare(String(bValue))
         : String(bValue).localeCompare(String(aValue));
     });
-  }, [machineData, searchTerm, statusFilter, sortBy, sortOrder]);
+  }, [machineData, searchTerm, statusFilter, assetFilters, groupBy, sortBy, sortOrder]);
+
+  // Header rows of a grouped table, by the index of the group's first machine
+  const groupHeaders = useMemo(() => {
+    const headers = new Map<number, { label: string; count: number; critical: number; atRisk: number }>();
+    if (groupBy === 'none') return headers;
+    let current: { label: string; count: number; critical: number; atRisk: number } | undefined;
+    filteredData.forEach((machine, index) => {
+      const label = assetText(machine.asset, groupBy) || `No ${ASSET_LABELS[groupBy].toLowerCase()}`;
+      if (!current || current.label !== label) {
+        current = { label, count: 0, critical: 0, atRisk: 0 };
+        headers.set(index, current);
+      }
+      current.count++;
+      if (machine.risk_level === 'Critical') current.critical++;
+      if (machine.risk_level === 'At Risk') current.atRisk++;
+    });
+    return headers;
+  }, [filteredData, groupBy]);
+
+  // Machine ID, the four readings columns, risk level, score, confidence, remaining life, data quality and the edit button
+  const columnCount = 11 + sensorKeys.length + assetFields.length;
+
+  const handleAssetFilterChange = (field: AssetField, value: string) => {
+    setAssetFilters(current => {
+      const filters = { ...current };
+      if (value === 'all') delete filters[field];
+      else filters[field] = value;
+      return filters;
+    });
+  };
 
   // Risk distribution data for charts
   const riskDistribution = useMemo(() => {
-    const counts = { Healthy: 0, 'At Risk': 0, Critical: 0 };
+    const counts = { Healthy: 0, 'At Risk': 0, Critical: 0, 'Insufficient data': 0 };
     machineData.forEach(machine => {
       counts[machine.risk_level]++;
     });
@@ -52,8 +188,9 @@ export function DashboardView({ machineData }: DashboardViewProps) {
     return [
       { name: 'Healthy', value: counts.Healthy, color: '#10b981' },
       { name: 'At Risk', value: counts['At Risk'], color: '#f59e0b' },
-      { name: 'Critical', value: counts.Critical, color: '#ef4444' }
-    ];
+      { name: 'Critical', value: counts.Critical, color: '#ef4444' },
+      { name: 'Insufficient data', value: counts['Insufficient data'], color: '#9ca3af' }
+    ].filter(entry => entry.name !== 'Insufficient data' || entry.value > 0);
   }, [machineData]);
 
   // Risk score distribution for histogram
@@ -76,15 +213,39 @@ export function DashboardView({ machineData }: DashboardViewProps) {
       case 'Healthy': return 'default';
       case 'At Risk': return 'secondary';
       case 'Critical': return 'destructive';
+      case 'Insufficient data': return 'outline';
       default: return 'default';
     }
   };
 
   const exportData = () => {
+    // Imperial exports name their units in the temperature and vibration headers.
+    // An export is a report rather than an upload file: uploading it again needs
+    // the units set to imperial, and its score columns come back as extra sensors.
+    const suffix = unitSystem === 'imperial' ? { temp: '_F', vibration: '_in_s' } : { temp: '', vibration: '' };
+    // Extra sensors and asset fields are exported under their keys, which map back to the same columns on upload
+    const sensorHeader = sensorKeys.map(key => `,${key}`).join('') + assetFields.map(field => `,${field}`).join('');
+    // Share of each machine's score per contributing sensor or trend, then the same in words
+    const factorKeys = Array.from(new Set(filteredData.flatMap(machine => machine.risk_factors.map(factor => factor.key))));
+    const factorHeader = factorKeys.map(key => `,risk_share_${key}`).join('') + ',risk_explanation';
+    // Blank without an estimate
+    const lifeColumns = ({ remaining_life: life }: MachineData) =>
+      life ? [life.hours, life.low, life.high].map(hours => hours.toFixed(1)).join(',') : ',,';
+    const factorColumns = (machine: MachineData) => {
+      const shares = riskFactorShares(machine.risk_factors);
+      const shareOf = (key: string) => {
+        const index = machine.risk_factors.findIndex(factor => factor.key === key);
+        return index >= 0 ? shares[index].toFixed(3) : '';
+      };
+      const explanation = machine.risk_factors
+        .map((factor, index) => `${explainRiskFactor(factor)} (${Math.round(shares[index] * 100)}%)`)
+        .join('; ');
+      return factorKeys.map(key => `,${shareOf(key)}`).join('') + `,${formatCsvField(explanation)}`;
+    };
     const csv = [
-      'machine_id,temp,vibration,runtime,risk_level,risk_score,prediction_confidence',
+      `machine_id,temp${suffix.temp},vibration${suffix.vibration},runtime,risk_level,risk_score,prediction_confidence,reading_count,last_reading_at,temp_trend${suffix.temp},vibration_trend${suffix.vibration},data_quality,engine_version,rule_set,remaining_life_hours,remaining_life_low_hours,remaining_life_high_hours${factorHeader}${sensorHeader}`,
       ...filteredData.map(machine => 
-        `${machine.machine_id},${machine.temp},${machine.vibration},${machine.runtime},${machine.risk_level},${machine.risk_score.toFixed(3)},${machine.prediction_confidence.toFixed(3)}`
+        `${formatCsvField(machine.machine_id)},${+fromCanonical(machine.temp, displayUnits.temp).toFixed(2)},${+fromCanonical(machine.vibration, displayUnits.vibration).toFixed(3)},${machine.runtime},${machine.risk_level},${machine.risk_score.toFixed(3)},${machine.prediction_confidence.toFixed(3)},${machine.reading_count},${machine.last_reading_at !== undefined ? new Date(machine.last_reading_at).toISOString() : ''},${deltaFromCanonical(machine.temp_trend, displayUnits.temp).toFixed(2)},${deltaFromCanonical(machine.vibration_trend, displayUnits.vibration).toFixed(2)},${machine.data_quality.toFixed(2)},${formatCsvField(machine.engine_version)},${formatCsvField(machine.rule_set)},${lifeColumns(machine)}${factorColumns(machine)}${sensorKeys.map(key => `,${machine.sensors[key] ?? ''}`).join('')}${assetFields.map(field => `,${formatCsvField(assetText(machine.asset, field))}`).join('')}`
       )
     ].join('\n');
 
@@ -273,7 +434,7 @@ export function DashboardView({ machineData }: DashboardViewProps) {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                 <Input
-                  placeholder="Search by machine ID..."
+                  placeholder={assetFields.length > 0 ? 'Search by machine ID, site, line or model...' : 'Search by machine ID...'}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10"
@@ -290,6 +451,7 @@ export function DashboardView({ machineData }: DashboardViewProps) {
                 <SelectItem value="Healthy">Healthy</SelectItem>
                 <SelectItem value="At Risk">At Risk</SelectItem>
                 <SelectItem value="Critical">Critical</SelectItem>
+                <SelectItem value="Insufficient data">Insufficient data</SelectItem>
               </SelectContent>
             </Select>
 
@@ -303,6 +465,40 @@ export function DashboardView({ machineData }: DashboardViewProps) {
                 <SelectItem value="temp">Temperature</SelectItem>
                 <SelectItem value="vibration">Vibration</SelectItem>
                 <SelectItem value="runtime">Runtime</SelectItem>
+                <SelectItem value="reading_count">Readings</SelectItem>
+                <SelectItem value="data_quality">Data Quality</SelectItem>
+                <SelectItem value="remaining_life">Remaining Life</SelectItem>
+                {sensorKeys.map(key => (
+                  <SelectItem key={key} value={sensorTarget(key)}>{sensorChannel(key).label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={scoring.engine} onValueChange={(value) => onScoringEngineChange(value as ScoringEngine)}>
+              <SelectTrigger className="w-full md:w-56" title="Scoring engine">
+                <SelectValue placeholder="Scoring engine" />
+              </SelectTrigger>
+              <SelectContent>
+                {RISK_ENGINES.map(info => (
+                  <SelectItem
+                    key={info.engine}
+                    value={info.engine}
+                    disabled={info.engine === 'failure-model' && !scoring.failureModel}
+                  >
+                    {info.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={unitSystem} onValueChange={(value) => onUnitSystemChange(value as UnitSystem)}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue placeholder="Units" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(UNIT_SYSTEMS) as UnitSystem[]).map(system => (
+                  <SelectItem key={system} value={system}>{UNIT_SYSTEMS[system].label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
 
@@ -311,6 +507,40 @@ export function DashboardView({ machineData }: DashboardViewProps) {
               Export
             </Button>
           </div>
+
+          {filterableAssetFields.length > 0 && (
+            <div className="flex flex-col md:flex-row gap-4">
+              {filterableAssetFields.map(field => (
+                <Select
+                  key={field}
+                  value={assetFilters[field] ?? 'all'}
+                  onValueChange={(value) => handleAssetFilterChange(field, value)}
+                >
+                  <SelectTrigger className="w-full md:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any {ASSET_LABELS[field].toLowerCase()}</SelectItem>
+                    {(assetValues[field] ?? []).map(value => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+
+              <Select value={groupBy} onValueChange={(value) => setGroupBy(value as AssetField | 'none')}>
+                <SelectTrigger className="w-full md:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No grouping</SelectItem>
+                  {filterableAssetFields.map(field => (
+                    <SelectItem key={field} value={field}>Group by {ASSET_LABELS[field].toLowerCase()}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -345,7 +575,7 @@ export function DashboardView({ machineData }: DashboardViewProps) {
                       }
                     }}
                   >
-                    Temperature (°C)
+                    Temperature ({tempLabel})
                   </TableHead>
                   <TableHead 
                     className="cursor-pointer hover:bg-muted/50"
@@ -358,7 +588,7 @@ export function DashboardView({ machineData }: DashboardViewProps) {
                       }
                     }}
                   >
-                    Vibration (mm/s)
+                    Vibration ({vibrationLabel})
                   </TableHead>
                   <TableHead 
                     className="cursor-pointer hover:bg-muted/50"
@@ -373,6 +603,38 @@ export function DashboardView({ machineData }: DashboardViewProps) {
                   >
                     Runtime (hrs)
                   </TableHead>
+                  <TableHead 
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => {
+                      if (sortBy === 'reading_count') {
+                        setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+                      } else {
+                        setSortBy('reading_count');
+                        setSortOrder('desc');
+                      }
+                    }}
+                  >
+                    Readings
+                  </TableHead>
+                  {sensorKeys.map(key => (
+                    <TableHead
+                      key={key}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => {
+                        if (sortBy === sensorTarget(key)) {
+                          setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+                        } else {
+                          setSortBy(sensorTarget(key));
+                          setSortOrder('desc');
+                        }
+                      }}
+                    >
+                      {channelLabel(sensorChannel(key))}
+                    </TableHead>
+                  ))}
+                  {assetFields.map(field => (
+                    <TableHead key={field}>{ASSET_LABELS[field]}</TableHead>
+                  ))}
                   <TableHead>Risk Level</TableHead>
                   <TableHead 
                     className="cursor-pointer hover:bg-muted/50"
@@ -388,56 +650,234 @@ export function DashboardView({ machineData }: DashboardViewProps) {
                     Risk Score
                   </TableHead>
                   <TableHead>Confidence</TableHead>
+                  <TableHead 
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => {
+                      if (sortBy === 'remaining_life') {
+                        setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+                      } else {
+                        setSortBy('remaining_life');
+                        setSortOrder('asc');
+                      }
+                    }}
+                  >
+                    Remaining Life
+                  </TableHead>
+                  <TableHead 
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => {
+                      if (sortBy === 'data_quality') {
+                        setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+                      } else {
+                        setSortBy('data_quality');
+                        setSortOrder('asc');
+                      }
+                    }}
+                  >
+                    Data Quality
+                  </TableHead>
+                  <TableHead className="w-12" />
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {filteredData.map((machine) => (
-                  <TableRow key={machine.machine_id}>
-                    <TableCell className="font-mono">{machine.machine_id}</TableCell>
-                    <TableCell>
-                      <span className={machine.temp > 80 ? 'text-red-600 font-medium' : ''}>
-                        {machine.temp.toFixed(1)}
-                      </span>
-                    </TableCell>
-                    <TableCell>
-                      <span className={machine.vibration > 8 ? 'text-red-600 font-medium' : ''}>
-                        {machine.vibration.toFixed(1)}
-                      </span>
-                    </TableCell>
-                    <TableCell>{machine.runtime.toLocaleString()}</TableCell>
-                    <TableCell>
-                      <Badge variant={getRiskBadgeVariant(machine.risk_level)}>
-                        {machine.risk_level}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center gap-2">
-                        <div className="w-16 bg-muted rounded-full h-2">
-                          <div 
-                            className={`h-2 rounded-full ${
-                              machine.risk_score > 0.7 ? 'bg-red-500' :
-                              machine.risk_score > 0.4 ? 'bg-yellow-500' : 'bg-green-500'
-                            }`}
-                            style={{ width: `${machine.risk_score * 100}%` }}
-                          />
-                        </div>
-                        <span className="text-sm">
-                          {(machine.risk_score * 100).toFixed(1)}%
-                        </span>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <span className="text-sm text-muted-foreground">
-                        {(machine.prediction_confidence * 100).toFixed(1)}%
-                      </span>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {filteredData.map((machine, index) => {
+                  // Highlights follow the rules the machine was judged by
+                  const rules = ruleSetFor(scoring.ruleSets, machine.asset);
+                  const factorShares = riskFactorShares(machine.risk_factors);
+                  return (
+                    <React.Fragment key={machine.machine_id}>
+                      {groupHeaders.has(index) && (
+                        <TableRow className="bg-muted/40 hover:bg-muted/40">
+                          <TableCell colSpan={columnCount} className="font-medium">
+                            {groupHeaders.get(index)!.label}
+                            <span className="ml-3 text-sm font-normal text-muted-foreground">
+                              {groupHeaders.get(index)!.count} machines · {groupHeaders.get(index)!.critical} critical · {groupHeaders.get(index)!.atRisk} at risk
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      <TableRow>
+                        <TableCell className="font-mono">{machine.machine_id}</TableCell>
+                        <TableCell>
+                          <span className={reachesTopLevel(ruleFor(rules, 'temp'), machine.temp) ? 'text-red-600 font-medium' : ''}>
+                            {fromCanonical(machine.temp, displayUnits.temp).toFixed(1)}
+                          </span>
+                          {machine.temp_trend > rules.trend.temp_change && (
+                            <ArrowUpRight className="inline w-3 h-3 ml-1 text-red-500" aria-label={`Rising ${deltaFromCanonical(machine.temp_trend, displayUnits.temp).toFixed(1)} ${tempLabel}`} />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span className={reachesTopLevel(ruleFor(rules, 'vibration'), machine.vibration) ? 'text-red-600 font-medium' : ''}>
+                            {fromCanonical(machine.vibration, displayUnits.vibration).toFixed(unitSystem === 'imperial' ? 3 : 1)}
+                          </span>
+                          {machine.vibration_trend > rules.trend.vibration_change && (
+                            <ArrowUpRight className="inline w-3 h-3 ml-1 text-red-500" aria-label={`Rising ${deltaFromCanonical(machine.vibration_trend, displayUnits.vibration).toFixed(2)} ${vibrationLabel}`} />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span className={reachesTopLevel(ruleFor(rules, 'runtime'), machine.runtime) ? 'text-red-600 font-medium' : ''}>
+                            {machine.runtime.toLocaleString()}
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">{machine.reading_count.toLocaleString()}</div>
+                          {machine.last_reading_at !== undefined && (
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(machine.last_reading_at).toLocaleString()}
+                            </div>
+                          )}
+                        </TableCell>
+                        {sensorKeys.map(key => {
+                          const value = machine.sensors[key];
+                          return (
+                            <TableCell key={key}>
+                              {value === undefined ? (
+                                <span className="text-muted-foreground">–</span>
+                              ) : (
+                                <span className={reachesTopLevel(ruleFor(rules, key), value) ? 'text-red-600 font-medium' : ''}>
+                                  {value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                                </span>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                        {assetFields.map(field => (
+                          <TableCell key={field} className="text-sm">
+                            {field === 'criticality' && machine.asset?.criticality ? (
+                              <Badge variant={machine.asset.criticality === 'High' ? 'destructive' : 'outline'}>
+                                {machine.asset.criticality}
+                              </Badge>
+                            ) : (
+                              assetText(machine.asset, field) || <span className="text-muted-foreground">–</span>
+                            )}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          <HoverCard openDelay={200}>
+                            <HoverCardTrigger asChild>
+                              <Badge variant={getRiskBadgeVariant(machine.risk_level)} className="cursor-help">
+                                {machine.risk_level}
+                              </Badge>
+                            </HoverCardTrigger>
+                            <HoverCardContent align="start" className="w-80 space-y-2 text-sm">
+                              <p className="font-medium">Why {machine.risk_level}</p>
+                              {machine.risk_factors.length > 0 ? (
+                                <ul className="space-y-1">
+                                  {machine.risk_factors.map((factor, index) => (
+                                    <li key={factor.key} className="flex justify-between gap-3">
+                                      <span>{explainRiskFactor(factor)}</span>
+                                      <span className="text-muted-foreground">
+                                        {Math.round(factorShares[index] * 100)}%
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <p className="text-muted-foreground">Nothing in the readings adds to the risk.</p>
+                              )}
+                              {machine.risk_level === 'Insufficient data' && (
+                                <p className="text-muted-foreground">
+                                  The readings are too few or too unreliable to claim a level; the score only orders machines.
+                                </p>
+                              )}
+                              <p className="text-xs text-muted-foreground">
+                                Scored by {engineInfo(machine.engine_version)?.name ?? 'an earlier engine'} ({machine.engine_version},{' '}
+                                {machine.rule_set}). Percentages are shares of what adds to the risk.
+                              </p>
+                            </HoverCardContent>
+                          </HoverCard>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <div className="w-16 bg-muted rounded-full h-2">
+                              <div 
+                                className={`h-2 rounded-full ${
+                                  machine.risk_score > 0.7 ? 'bg-red-500' :
+                                  machine.risk_score > 0.4 ? 'bg-yellow-500' : 'bg-green-500'
+                                }`}
+                                style={{ width: `${machine.risk_score * 100}%` }}
+                              />
+                            </div>
+                            <span className="text-sm">
+                              {(machine.risk_score * 100).toFixed(1)}%
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <span className="text-sm text-muted-foreground">
+                            {(machine.prediction_confidence * 100).toFixed(1)}%
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          {machine.remaining_life ? (
+                            <span
+                              className={`text-sm ${machine.remaining_life.hours === 0 ? 'text-red-600 font-medium' : ''}`}
+                              title={`${sensorChannel(machine.remaining_life.channel).label} reaches ${+fromCanonical(machine.remaining_life.threshold, displayUnits[machine.remaining_life.channel]).toFixed(2)} ${machine.remaining_life.channel === 'temp' ? tempLabel : vibrationLabel} at the current trend; about 95% likely within the range shown`}
+                            >
+                              {machine.remaining_life.hours === 0 ? 'Now' : formatLifeHours(machine.remaining_life.hours)}
+                              {machine.remaining_life.hours > 0 && (
+                                <span className="text-muted-foreground">
+                                  {' '}({formatLifeHours(machine.remaining_life.low)}–{formatLifeHours(machine.remaining_life.high)})
+                                </span>
+                              )}
+                            </span>
+                          ) : (
+                            <span
+                              className="text-muted-foreground"
+                              title="Needs at least 5 time-stamped readings with temperature or vibration clearly trending towards its threshold"
+                            >
+                              –
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <span
+                            className={`text-sm ${machine.data_quality < MIN_DATA_QUALITY ? 'text-red-600 font-medium' : machine.data_quality < 1 ? 'text-yellow-600' : 'text-muted-foreground'}`}
+                            title={qualitySummary(machine)}
+                          >
+                            {(machine.data_quality * 100).toFixed(0)}%
+                          </span>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingId(machine.machine_id)}
+                            aria-label={`Edit ${machine.machine_id}`}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
         </CardContent>
       </Card>
+
+      {/* Manual Edit */}
+      <Dialog open={editingMachine !== undefined} onOpenChange={(open) => !open && setEditingId(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Edit {editingMachine?.machine_id}</DialogTitle>
+            <DialogDescription>
+              Correct the latest reading and re-score the machine. Values are in {UNIT_LABELS.temp.C} and {UNIT_LABELS.vibration.mm_s}.
+            </DialogDescription>
+          </DialogHeader>
+          {editingMachine && (
+            <MachineEditor
+              key={editingMachine.machine_id}
+              machines={machineData}
+              machine={editingMachine}
+              scoring={scoring}
+              onSave={onMachineSaved}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
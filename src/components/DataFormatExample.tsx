@@ -1,10 +1,32 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
-import { FileText, Database } from 'lucide-react';
+import { FileText, Database, Braces } from 'lucide-react';
 import { ImageWithFallback } from './figma/ImageWithFallback';
+import { DEFAULT_RULE_SET_ID, RuleSet, ThresholdRule, topLevelValue } from '../utils/riskRules';
+import { isCoreChannel, sensorChannel } from '../utils/sensors';
+
+interface DataFormatExampleProps {
+  ruleSets: RuleSet[];
+}
+
+// e.g. "temperature above 80 °C"
+function describeRule(rule: ThresholdRule): string {
+  const channel = sensorChannel(rule.channel);
+  const value = topLevelValue(rule).toLocaleString();
+  return `${channel.label.toLowerCase()} ${rule.direction} ${channel.unit ? `${value} ${channel.unit}` : value}`;
+}
+
+function joinList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items.join('');
+}
+
+export function DataFormatExample({ ruleSets }: DataFormatExampleProps) {
+  const defaultRules = ruleSets.find(set => set.id === DEFAULT_RULE_SET_ID) ?? ruleSets[0];
+  const coreRules = defaultRules.rules.filter(rule => isCoreChannel(rule.channel) && rule.risk.length > 0);
+  const extraRuleCount = defaultRules.rules.length - coreRules.length;
+  const customSetCount = ruleSets.length - 1;
 
-export function DataFormatExample() {
   return (
     <Card className="bg-gradient-to-br from-blue-50 to-indigo-50 dark:from-blue-950/20 dark:to-indigo-950/20 border-blue-200 dark:border-blue-800">
       <CardHeader>
@@ -84,6 +106,55 @@ export function DataFormatExample() {
               </div>
             </div>
           </div>
+
+          {/* JSON Format Example */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                <Braces className="w-3 h-3 mr-1" />
+                JSON Format
+              </Badge>
+              <span className="text-sm text-muted-foreground">Array of objects</span>
+            </div>
+            
+            <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border font-mono text-sm">
+              <div className="space-y-1 text-gray-800 dark:text-gray-200">
+                <div>[</div>
+                <div className="pl-4">{'{'}"device": {'{'}"id": "MACH001"{'}'},</div>
+                <div className="pl-6">"sensors": {'{'}"temperature": {'{'}"value": 72.5{'}'},</div>
+                <div className="pl-8">"vibration": {'{'}"value": 4.2{'}'}{'}'},</div>
+                <div className="pl-6">"runtime_hours": 15680{'}'},</div>
+                <div className="pl-4 text-gray-400">...</div>
+                <div>]</div>
+              </div>
+              <div className="mt-3 text-xs text-gray-500 border-t pt-2">
+                Nested values are mapped by field path, e.g. sensors.temperature.value
+              </div>
+            </div>
+          </div>
+
+          {/* NDJSON Format Example */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+                <Braces className="w-3 h-3 mr-1" />
+                NDJSON Format
+              </Badge>
+              <span className="text-sm text-muted-foreground">One object per line</span>
+            </div>
+            
+            <div className="bg-white dark:bg-gray-900 p-4 rounded-lg border font-mono text-sm">
+              <div className="space-y-1 text-gray-800 dark:text-gray-200 overflow-x-auto">
+                <div className="whitespace-nowrap">{'{'}"machine_id": "MACH001", "temp": 72.5, "vibration": 4.2, "runtime": 15680{'}'}</div>
+                <div className="whitespace-nowrap">{'{'}"machine_id": "MACH002", "temp": 85.1, "vibration": 7.8, "runtime": 22340{'}'}</div>
+                <div className="whitespace-nowrap">{'{'}"machine_id": "MACH003", "temp": 68.3, "vibration": 3.1, "runtime": 8920{'}'}</div>
+                <div className="text-gray-400">...</div>
+              </div>
+              <div className="mt-3 text-xs text-gray-500 border-t pt-2">
+                Typical gateway telemetry stream (.ndjson or .jsonl)
+              </div>
+            </div>
+          </div>
         </div>
 
         {/* Data Insights */}
@@ -93,8 +164,10 @@ export function DataFormatExample() {
             <p className="font-semibold text-purple-800 dark:text-purple-200">AI Analysis Ready</p>
           </div>
           <p className="text-sm text-purple-700 dark:text-purple-300">
-            Our AI will automatically detect risk patterns in temperature spikes (&gt;80°C), 
-            high vibration levels (&gt;8mm/s), and extended runtime (&gt;20,000hrs) to classify machine health.
+            Our AI will automatically detect risk patterns such as {joinList(coreRules.map(describeRule))}
+            {extraRuleCount > 0 && `, plus thresholds on ${extraRuleCount} more sensor ${extraRuleCount === 1 ? 'channel' : 'channels'}`}
+            {' '}to classify machine health.
+            {customSetCount > 0 && ` ${customSetCount} custom rule ${customSetCount === 1 ? 'set applies' : 'sets apply'} to particular models or criticality classes.`}
           </p>
         </div>
       </CardContent>
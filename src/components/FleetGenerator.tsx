@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Brain, Dices, Download } from 'lucide-react';
+import type { RawMachineRow } from '../utils/parsers';
+import {
+  DEFAULT_FLEET_OPTIONS,
+  FAILURE_SCENARIOS,
+  FailureScenario,
+  FleetOptions,
+  MAX_FLEET_READINGS,
+  MAX_FLEET_SIZE,
+  fleetToCsv,
+  generateFleet
+} from '../utils/fleetGenerator';
+
+interface FleetGeneratorProps {
+  // Scores the generated rows as if they had been uploaded
+  onLoad: (rows: RawMachineRow[], name: string) => void;
+}
+
+const NOISE_LEVELS: { value: number; label: string }[] = [
+  { value: 0, label: 'None' },
+  { value: 0.15, label: 'Low' },
+  { value: 0.3, label: 'Medium' },
+  { value: 0.6, label: 'High' }
+];
+
+function fleetName(options: FleetOptions): string {
+  return `synthetic_fleet_${options.size}x${options.readings}_seed${options.seed}`;
+}
+
+// Settings for a synthetic fleet, which can be downloaded as CSV or scored directly
+export function FleetGenerator({ onLoad }: FleetGeneratorProps) {
+  const [options, setOptions] = useState<FleetOptions>(DEFAULT_FLEET_OPTIONS);
+
+  const update = (changes: Partial<FleetOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  const toggleScenario = (scenario: FailureScenario, checked: boolean) => {
+    setOptions(current => ({
+      ...current,
+      // Kept in list order so the same selection always assigns scenarios alike
+      scenarios: FAILURE_SCENARIOS
+        .map(s => s.scenario)
+        .filter(s => (s === scenario ? checked : current.scenarios.includes(s)))
+    }));
+  };
+
+  const download = () => {
+    const blob = new Blob([fleetToCsv(generateFleet(options))], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fleetName(options)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const numberInput = (
+    id: string,
+    label: string,
+    value: number,
+    min: number,
+    max: number,
+    onChange: (value: number) => void
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Math.min(Math.max(Number(e.target.value) || 0, min), max))}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        {numberInput('fleet-size', 'Machines', options.size, 1, MAX_FLEET_SIZE, size => update({ size }))}
+        {numberInput('fleet-degrading', 'Degrading (%)', Math.round(options.degradingShare * 100), 0, 100,
+          percent => update({ degradingShare: percent / 100 }))}
+        <div className="space-y-1">
+          <Label htmlFor="fleet-noise">Noise</Label>
+          <Select value={String(options.noise)} onValueChange={(value) => update({ noise: Number(value) })}>
+            <SelectTrigger id="fleet-noise">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NOISE_LEVELS.map(level => (
+                <SelectItem key={level.value} value={String(level.value)}>{level.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {numberInput('fleet-readings', 'Readings per machine', options.readings, 1, MAX_FLEET_READINGS,
+          readings => update({ readings }))}
+        {numberInput('fleet-seed', 'Seed', options.seed, 0, 2 ** 32 - 1, seed => update({ seed }))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2">
+        {FAILURE_SCENARIOS.map(({ scenario, label, description }) => (
+          <div key={scenario} className="flex items-center gap-2" title={description}>
+            <Checkbox
+              id={`fleet-scenario-${scenario}`}
+              checked={options.scenarios.includes(scenario)}
+              onCheckedChange={(checked) => toggleScenario(scenario, checked === true)}
+            />
+            <Label htmlFor={`fleet-scenario-${scenario}`} className="font-normal">{label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+        <p className="text-sm text-muted-foreground">
+          {options.readings > 1
+            ? `Daily readings from ${options.readings} days per machine; failures develop over the series.`
+            : 'One reading per machine, showing each failure at its current stage.'}
+          {options.scenarios.length === 0 && ' With no scenario selected every machine stays healthy.'}
+        </p>
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={() => {
+              const randomSeed = new Uint32Array(1);
+              crypto.getRandomValues(randomSeed);
+              update({ seed: randomSeed[0] });
+            }}
+          >
+            <Dices className="w-4 h-4 mr-2" />
+            New Seed
+          </Button>
+          <Button variant="outline" onClick={download}>
+            <Download className="w-4 h-4 mr-2" />
+            Download CSV
+          </Button>
+          <Button onClick={() => onLoad(generateFleet(options), fleetName(options))}>
+            <Brain className="w-4 h-4 mr-2" />
+            Load into Dashboard
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
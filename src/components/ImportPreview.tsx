@@ -0,0 +1,220 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Brain, FileText, X } from 'lucide-react';
+import { UnitSelector } from './UnitSelector';
+import { UnitSelection } from '../utils/units';
+import {
+  DECIMAL_SEPARATOR_LABELS,
+  DELIMITER_LABELS,
+  DataFormat,
+  DecimalSeparator,
+  Delimiter,
+  ENCODING_LABELS,
+  FORMAT_LABELS,
+  ImportOptions,
+  TextEncoding,
+  previewRecords
+} from '../utils/formatDetection';
+
+interface ImportPreviewProps {
+  fileName: string;
+  // Files read from an archive; the preview shows the first
+  sourceNames?: string[];
+  bytes: Uint8Array;
+  options: ImportOptions;
+  detected: ImportOptions;
+  onOptionsChange: (options: ImportOptions) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  units: UnitSelection;
+  onUnitsChange: (units: UnitSelection) => void;
+  confirmLabel?: string;
+}
+
+const PREVIEW_ROWS = 6;
+
+export function ImportPreview({
+  fileName,
+  sourceNames = [],
+  bytes,
+  options,
+  detected,
+  onOptionsChange,
+  onConfirm,
+  onCancel,
+  units,
+  onUnitsChange,
+  confirmLabel = 'Run AI Analysis'
+}: ImportPreviewProps) {
+  const records = useMemo(() => previewRecords(bytes, options, PREVIEW_ROWS + 1), [bytes, options]);
+  const isDelimited = options.format === 'delimited';
+
+  const header = options.hasHeader ? records[0]?.fields ?? [] : [];
+  const rows = (options.hasHeader ? records.slice(1) : records).slice(0, PREVIEW_ROWS);
+  const columnCount = Math.max(header.length, ...rows.map(r => r.fields.length), 0);
+
+  const detectedSuffix = (isDetected: boolean) => (isDetected ? ' (detected)' : '');
+
+  // JSON always names its fields and writes numbers with a decimal point
+  const handleFormatChange = (format: DataFormat) => {
+    onOptionsChange(format === 'delimited'
+      ? { ...options, format, hasHeader: detected.format === 'delimited' ? detected.hasHeader : true }
+      : { ...options, format, decimalSeparator: '.', hasHeader: true });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="w-5 h-5" />
+          Preview: {fileName}
+        </CardTitle>
+        <CardDescription>
+          Check how the file will be read. Adjust anything that was detected incorrectly before running the analysis.
+          {sourceNames.length > 1 && (
+            <> The archive holds {sourceNames.length} data files, which are merged into one dataset: {sourceNames.join(', ')}. The preview shows <strong>{sourceNames[0]}</strong>.</>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={options.format} onValueChange={(value) => handleFormatChange(value as DataFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FORMAT_LABELS) as DataFormat[]).map(format => (
+                  <SelectItem key={format} value={format}>
+                    {FORMAT_LABELS[format]}{detectedSuffix(format === detected.format)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Encoding</Label>
+            <Select
+              value={options.encoding}
+              onValueChange={(value) => onOptionsChange({ ...options, encoding: value as TextEncoding })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(encoding => (
+                  <SelectItem key={encoding} value={encoding}>
+                    {ENCODING_LABELS[encoding]}{detectedSuffix(encoding === detected.encoding)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isDelimited && (
+            <>
+              <div className="space-y-2">
+                <Label>Delimiter</Label>
+                <Select
+                  value={options.delimiter}
+                  onValueChange={(value) => onOptionsChange({ ...options, delimiter: value as Delimiter })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(delimiter => (
+                      <SelectItem key={delimiter} value={delimiter}>
+                        {DELIMITER_LABELS[delimiter]}{detectedSuffix(delimiter === detected.delimiter)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Decimal mark</Label>
+                <Select
+                  value={options.decimalSeparator}
+                  onValueChange={(value) => onOptionsChange({ ...options, decimalSeparator: value as DecimalSeparator })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DECIMAL_SEPARATOR_LABELS) as DecimalSeparator[]).map(separator => (
+                      <SelectItem key={separator} value={separator}>
+                        {DECIMAL_SEPARATOR_LABELS[separator]}{detectedSuffix(separator === detected.decimalSeparator)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="has-header">First row is a header</Label>
+                <div className="flex items-center h-9">
+                  <Switch
+                    id="has-header"
+                    checked={options.hasHeader}
+                    onCheckedChange={(checked) => onOptionsChange({ ...options, hasHeader: checked })}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="border rounded-lg">
+          {rows.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">No rows could be read with these settings.</p>
+          ) : (
+            <Table>
+              {options.hasHeader && (
+                <TableHeader>
+                  <TableRow>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <TableHead key={i} className="font-mono">{header[i] ?? ''}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+              )}
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.line}>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <TableCell key={i} className="font-mono">{row.fields[i] ?? ''}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        {/* Without a header there are no unit suffixes to read, so ask */}
+        {!options.hasHeader && (
+          <UnitSelector units={units} onUnitsChange={onUnitsChange} />
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-end">
+          <Button variant="outline" onClick={onCancel}>
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={rows.length === 0}>
+            <Brain className="w-4 h-4 mr-2" />
+            {confirmLabel}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
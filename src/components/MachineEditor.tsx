@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Brain, Plus } from 'lucide-react';
+import { MachineData } from '../App';
+import { CANONICAL_UNITS, UNIT_LABELS } from '../utils/units';
+import { FieldValues, ISSUE_LABELS, RowIssue, TextField, duplicateKey, validateRow } from '../utils/validation';
+import { scoreMachine } from '../utils/riskAnalysis';
+import { ScoringSettings, riskModelFor } from '../utils/riskModels';
+import type { SensorReading } from '../utils/timeSeries';
+import { SENSOR_CHANNELS, channelLabel, extraChannelKeys, isCoreChannel, sensorChannel } from '../utils/sensors';
+
+interface MachineEditorProps {
+  machines: MachineData[];
+  // Machine whose latest reading is being edited; without one the form adds a reading
+  machine?: MachineData;
+  scoring: ScoringSettings;
+  onSave: (machine: MachineData) => void;
+}
+
+const EMPTY_VALUES: FieldValues = { machine_id: '', temp: '', vibration: '', runtime: '', timestamp: '' };
+
+const FIELDS: { field: TextField; label: string; placeholder: string }[] = [
+  { field: 'machine_id', label: 'Machine ID', placeholder: 'MACH001' },
+  { field: 'temp', label: `Temperature (${UNIT_LABELS.temp[CANONICAL_UNITS.temp]})`, placeholder: '72.5' },
+  { field: 'vibration', label: `Vibration (${UNIT_LABELS.vibration[CANONICAL_UNITS.vibration]})`, placeholder: '4.2' },
+  { field: 'runtime', label: `Runtime (${UNIT_LABELS.runtime[CANONICAL_UNITS.runtime]})`, placeholder: '15680' },
+  { field: 'timestamp', label: 'Timestamp (optional)', placeholder: '2024-03-01 08:00:00' }
+];
+
+function latestValues(machine: MachineData): FieldValues {
+  const latest = machine.readings[machine.readings.length - 1];
+  return {
+    machine_id: machine.machine_id,
+    temp: String(latest.temp),
+    vibration: String(latest.vibration),
+    runtime: String(latest.runtime),
+    timestamp: latest.timestamp !== undefined ? new Date(latest.timestamp).toISOString() : '',
+    sensors: Object.fromEntries(Object.entries(latest.sensors ?? {}).map(([key, value]) => [key, String(value)]))
+  };
+}
+
+// Form for scoring a handful of readings without preparing a file. Values are
+// checked by the same validation as uploaded rows and scored by the same model.
+export function MachineEditor({ machines, machine, scoring, onSave }: MachineEditorProps) {
+  const [values, setValues] = useState<FieldValues>(() => (machine ? latestValues(machine) : EMPTY_VALUES));
+  const [issues, setIssues] = useState<RowIssue[]>([]);
+  const [result, setResult] = useState<MachineData | null>(null);
+
+  const existing = useMemo(
+    () => machine ?? machines.find(m => m.machine_id === values.machine_id.trim()),
+    [machine, machines, values.machine_id]
+  );
+
+  // Every registered extra channel, plus ad-hoc ones the fleet already reports
+  const sensorKeys = useMemo(() => {
+    return extraChannelKeys([
+      Object.fromEntries(SENSOR_CHANNELS.filter(c => !isCoreChannel(c.key)).map(c => [c.key, 0])),
+      ...machines.map(m => m.sensors)
+    ]);
+  }, [machines]);
+
+  const updateSensor = (key: string, value: string) => {
+    setValues(current => ({ ...current, sensors: { ...current.sensors, [key]: value } }));
+    setIssues(current => current.filter(issue => issue.sensor !== key));
+  };
+
+  const updateValue = (field: TextField, value: string) => {
+    setValues(current => ({ ...current, [field]: value }));
+    setIssues(current => current.filter(issue => issue.field !== field));
+  };
+
+  const save = () => {
+    const { row, issues: found } = validateRow(values, 1, { decimalSeparator: '.', units: CANONICAL_UNITS });
+    if (!row) {
+      setIssues(found);
+      return;
+    }
+
+    const reading: SensorReading = {
+      timestamp: row.timestamp,
+      temp: row.temp,
+      vibration: row.vibration,
+      runtime: row.runtime,
+      sensors: row.sensors
+    };
+    // Editing replaces the latest reading; adding extends the machine's history
+    const history = existing ? (machine ? existing.readings.slice(0, -1) : existing.readings) : [];
+    const key = duplicateKey(row);
+    if (history.some(r => duplicateKey({ ...r, machine_id: row.machine_id, line: 0 }) === key)) {
+      setIssues([{ kind: 'duplicate', field: 'timestamp', message: ISSUE_LABELS.duplicate }]);
+      return;
+    }
+
+    // Install dates count towards the runtime plausibility check
+    const scored = scoreMachine(row.machine_id, [...history, reading], riskModelFor(scoring), existing?.asset);
+    setResult(scored);
+    onSave(scored);
+    if (!machine) setValues(EMPTY_VALUES);
+  };
+
+  const issueFor = (field: TextField) => issues.find(issue => issue.field === field);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        {FIELDS.map(({ field, label, placeholder }) => {
+          const issue = issueFor(field);
+          return (
+            <div key={field} className="space-y-1">
+              <Label htmlFor={`machine-editor-${field}`}>{label}</Label>
+              <Input
+                id={`machine-editor-${field}`}
+                value={values[field]}
+                placeholder={placeholder}
+                disabled={field === 'machine_id' && machine !== undefined}
+                aria-invalid={issue !== undefined}
+                list={field === 'machine_id' && !machine ? 'machine-editor-ids' : undefined}
+                onChange={(e) => updateValue(field, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && save()}
+              />
+              {issue && <p className="text-xs text-destructive">{ISSUE_LABELS[issue.kind]}</p>}
+            </div>
+          );
+        })}
+      </div>
+      {sensorKeys.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+          {sensorKeys.map(key => {
+            const invalid = issues.some(issue => issue.sensor === key);
+            return (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`machine-editor-sensor-${key}`}>{channelLabel(sensorChannel(key))}</Label>
+                <Input
+                  id={`machine-editor-sensor-${key}`}
+                  value={values.sensors?.[key] ?? ''}
+                  placeholder="Optional"
+                  aria-invalid={invalid}
+                  onChange={(e) => updateSensor(key, e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && save()}
+                />
+                {invalid && <p className="text-xs text-destructive">{ISSUE_LABELS[issues.find(issue => issue.sensor === key)!.kind]}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {!machine && (
+        <datalist id="machine-editor-ids">
+          {machines.map(m => <option key={m.machine_id} value={m.machine_id} />)}
+        </datalist>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
+        <p className="text-sm text-muted-foreground">
+          {machine
+            ? `Replaces the latest of ${machine.reading_count} readings and re-scores the machine.`
+            : existing
+              ? `Adds a reading to ${existing.machine_id}, which has ${existing.reading_count} already.`
+              : 'Adds a new machine to the fleet.'}
+        </p>
+        <Button onClick={save}>
+          {machine ? <Brain className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {machine ? 'Re-score' : 'Add & Score'}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="font-mono">{result.machine_id}</span>
+          <Badge
+            variant={
+              result.risk_level === 'Critical' ? 'destructive'
+                : result.risk_level === 'At Risk' ? 'secondary'
+                : result.risk_level === 'Insufficient data' ? 'outline'
+                : 'default'
+            }
+          >
+            {result.risk_level}
+          </Badge>
+          <span className="text-muted-foreground">risk score {(result.risk_score * 100).toFixed(1)}%</span>
+        </div>
+      )}
+    </div>
+  );
+}
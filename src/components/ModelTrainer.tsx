@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Switch } from './ui/switch';
+import { Alert, AlertDescription } from './ui/alert';
+import { Progress } from './ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertCircle, Brain, FileText, Save, Trash2, X } from 'lucide-react';
+import { channelLabel, sensorChannel } from '../utils/sensors';
+import type { ScoringEngine } from '../utils/riskModels';
+import { ImportCancelledError, ImportJob, startImportJob } from '../utils/importJob';
+import {
+  DEFAULT_TRAINING_OPTIONS,
+  FailureModel,
+  LABEL_COLUMN,
+  ModelMetrics,
+  TrainingSet,
+  parseTrainingData
+} from '../utils/failureModel';
+
+interface ModelTrainerProps {
+  savedModel: FailureModel | null;
+  scoringEngine: ScoringEngine;
+  // Saving replaces the saved model; null deletes it
+  onSave: (model: FailureModel | null) => void;
+  onScoringEngineChange: (engine: ScoringEngine) => void;
+}
+
+const VALIDATION_SHARES = [0.1, 0.2, 0.3];
+
+const METRIC_ROWS: { key: keyof ModelMetrics; label: string; format: (value: number) => string }[] = [
+  { key: 'rows', label: 'Rows', format: value => value.toLocaleString() },
+  { key: 'failures', label: 'Failures', format: value => value.toLocaleString() },
+  { key: 'accuracy', label: 'Accuracy', format: value => `${(value * 100).toFixed(1)}%` },
+  { key: 'precision', label: 'Precision', format: value => `${(value * 100).toFixed(1)}%` },
+  { key: 'recall', label: 'Recall', format: value => `${(value * 100).toFixed(1)}%` },
+  { key: 'auc', label: 'ROC AUC', format: value => value.toFixed(3) },
+  { key: 'logLoss', label: 'Log loss', format: value => value.toFixed(3) }
+];
+
+const AUC_ROW = METRIC_ROWS.find(row => row.key === 'auc')!;
+
+function formatMetric(row: typeof METRIC_ROWS[number], metrics: ModelMetrics | undefined) {
+  const value = metrics?.[row.key];
+  return value === undefined || Number.isNaN(value) ? '–' : row.format(value);
+}
+
+export function ModelTrainer({ savedModel, scoringEngine, onSave, onScoringEngineChange }: ModelTrainerProps) {
+  const [trainingSet, setTrainingSet] = useState<TrainingSet | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [features, setFeatures] = useState<string[]>([]);
+  const [validationShare, setValidationShare] = useState(DEFAULT_TRAINING_OPTIONS.validationShare);
+  const [model, setModel] = useState<FailureModel | null>(null);
+  const [modelName, setModelName] = useState('');
+  const [isTraining, setIsTraining] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ImportJob | null>(null);
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    setModel(null);
+    try {
+      const set = parseTrainingData(new Uint8Array(await file.arrayBuffer()));
+      setTrainingSet(set);
+      setFileName(file.name);
+      setFeatures(set.features);
+      setModelName(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      setTrainingSet(null);
+      setError(err instanceof Error ? err.message : 'Failed to read the training file');
+    }
+  };
+
+  // Trains in the import worker, so the page stays responsive and training can be cancelled
+  const train = async () => {
+    if (!trainingSet) return;
+    setIsTraining(true);
+    setProgress(0);
+    setError(null);
+    setModel(null);
+
+    const job = startImportJob({
+      type: 'train',
+      set: trainingSet,
+      options: { ...DEFAULT_TRAINING_OPTIONS, features, validationShare },
+      name: modelName.trim() || 'Failure model'
+    }, (update) => {
+      if (update.type === 'training') setProgress(Math.floor((update.completedEpochs / update.epochs) * 100));
+    });
+    jobRef.current = job;
+
+    try {
+      const outcome = await job.result;
+      if (outcome.type === 'trained') setModel(outcome.model);
+    } catch (err) {
+      if (!(err instanceof ImportCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Training failed');
+      }
+    } finally {
+      jobRef.current = null;
+      setIsTraining(false);
+      setProgress(0);
+    }
+  };
+
+  const toggleFeature = (key: string, checked: boolean) => {
+    setFeatures(checked ? trainingSet!.features.filter(f => f === key || features.includes(f)) : features.filter(f => f !== key));
+    setModel(null);
+  };
+
+  const failureCount = trainingSet?.rows.filter(row => row.label === 1).length ?? 0;
+  const machineCount = trainingSet ? new Set(trainingSet.rows.map(row => row.machine_id)).size : 0;
+  const shown = model ?? savedModel;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Brain className="w-5 h-5" />
+          Failure Model
+        </CardTitle>
+        <CardDescription>
+          Train a logistic regression on historical readings labelled with {LABEL_COLUMN} (1 when the machine failed
+          within 30 days of the reading, otherwise 0). Training runs in this browser and the model is saved here only.
+          Once saved, it can score the fleet in place of the threshold rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {savedModel && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border p-3">
+            <div className="text-sm">
+              <p className="font-medium">{savedModel.name}</p>
+              <p className="text-muted-foreground">
+                Trained {new Date(savedModel.trainedAt).toLocaleString()} on {savedModel.features.length} features ·
+                validation AUC {formatMetric(AUC_ROW, savedModel.metrics.validation)}
+              </p>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="model-scoring"
+                  checked={scoringEngine === 'failure-model'}
+                  onCheckedChange={(checked) => onScoringEngineChange(checked ? 'failure-model' : 'rules')}
+                />
+                <Label htmlFor="model-scoring" className="font-normal">Score the fleet with this model</Label>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => onSave(null)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <Button variant="outline" asChild>
+            <label className="cursor-pointer">
+              <FileText className="w-4 h-4 mr-2" />
+              Choose Training File
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+            </label>
+          </Button>
+          {trainingSet && (
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {trainingSet.rows.length.toLocaleString()} labelled rows from {machineCount} machines,{' '}
+              {failureCount.toLocaleString()} failures
+            </p>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {trainingSet && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Features</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {trainingSet.features.map(key => (
+                  <div key={key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`model-feature-${key}`}
+                      checked={features.includes(key)}
+                      onCheckedChange={(checked) => toggleFeature(key, checked === true)}
+                    />
+                    <Label htmlFor={`model-feature-${key}`} className="font-normal">
+                      {channelLabel(sensorChannel(key))}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-3 sm:items-end">
+              <div className="space-y-1">
+                <Label htmlFor="model-name">Model name</Label>
+                <Input id="model-name" value={modelName} onChange={(e) => setModelName(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="model-validation">Held out for validation</Label>
+                <Select value={String(validationShare)} onValueChange={(value) => setValidationShare(Number(value))}>
+                  <SelectTrigger id="model-validation">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VALIDATION_SHARES.map(share => (
+                      <SelectItem key={share} value={String(share)}>{share * 100}% of machines</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={train} disabled={isTraining || features.length === 0}>
+                <Brain className="w-4 h-4 mr-2" />
+                {isTraining ? 'Training...' : 'Train Model'}
+              </Button>
+            </div>
+            {isTraining && (
+              <div className="flex items-center gap-3">
+                <Progress value={progress} className="h-2 flex-1" />
+                <span className="text-xs text-muted-foreground w-10 text-right">{progress}%</span>
+                <Button variant="outline" size="sm" onClick={() => jobRef.current?.cancel()}>
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {shown && (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-2">
+              <p className="font-medium">{model ? 'New model' : 'Saved model'}: metrics</p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead>Training</TableHead>
+                    <TableHead>Validation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {METRIC_ROWS.map(row => (
+                    <TableRow key={row.key}>
+                      <TableCell>{row.label}</TableCell>
+                      <TableCell>{formatMetric(row, shown.metrics.train)}</TableCell>
+                      <TableCell>{formatMetric(row, shown.metrics.validation)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="space-y-2">
+              <p className="font-medium">Weights</p>
+              <p className="text-sm text-muted-foreground">
+                Change in the log-odds of failure per standard deviation of each feature.
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Feature</TableHead>
+                    <TableHead>Weight</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shown.features.map((key, i) => (
+                    <TableRow key={key}>
+                      <TableCell>{channelLabel(sensorChannel(key))}</TableCell>
+                      <TableCell>{shown.weights[i].toFixed(3)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {model && (
+          <div className="flex gap-2">
+            <Button onClick={() => { onSave({ ...model, name: modelName.trim() || model.name }); setModel(null); }}>
+              <Save className="w-4 h-4 mr-2" />
+              {savedModel ? 'Replace Saved Model' : 'Save Model'}
+            </Button>
+            <Button variant="outline" onClick={() => setModel(null)}>Discard</Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
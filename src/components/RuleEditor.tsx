@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertCircle, Plus, Save, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { MachineData } from '../App';
+import { CRITICALITY_LEVELS, Criticality } from '../utils/assets';
+import { SENSOR_CHANNELS, channelLabel, extraChannelKeys, sensorChannel } from '../utils/sensors';
+import {
+  DEFAULT_RULE_SET_ID,
+  RuleLibrary,
+  RuleSet,
+  ThresholdRule,
+  ruleSetLabel,
+  ruleSetProblems
+} from '../utils/riskRules';
+
+interface RuleEditorProps {
+  library: RuleLibrary;
+  machines: MachineData[];
+  // Saving stores a new version and re-scores the fleet
+  onSave: (ruleSet: RuleSet) => void;
+  onDelete: (id: string) => void;
+}
+
+// Shown for empty number fields, which the problem list then reports
+function numberValue(value: number): number | '' {
+  return Number.isNaN(value) ? '' : value;
+}
+
+function parseNumber(text: string): number {
+  return text.trim() === '' ? NaN : Number(text);
+}
+
+export function RuleEditor({ library, machines, onSave, onDelete }: RuleEditorProps) {
+  const [selectedId, setSelectedId] = useState(DEFAULT_RULE_SET_ID);
+  const current = library.sets.find(set => set.id === selectedId);
+  const [draft, setDraft] = useState<RuleSet>(current ?? library.sets[0]);
+
+  // A saved or deleted set is shown as stored
+  useEffect(() => {
+    const stored = library.sets.find(set => set.id === selectedId);
+    if (stored) setDraft(stored);
+    else if (draft.version > 0) setSelectedId(DEFAULT_RULE_SET_ID);
+  }, [library, selectedId]);
+
+  const versions = useMemo(
+    () => library.archive.filter(set => set.id === selectedId),
+    [library.archive, selectedId]
+  );
+
+  // Registered channels with thresholds, plus ad-hoc channels the fleet reports
+  const channelKeys = useMemo(() => {
+    const registered = SENSOR_CHANNELS.map(channel => channel.key);
+    const adHoc = extraChannelKeys(machines.map(machine => machine.sensors)).filter(key => !registered.includes(key));
+    return [...registered, ...adHoc];
+  }, [machines]);
+
+  const knownModels = useMemo(
+    () => Array.from(new Set(machines.map(machine => machine.asset?.model).filter((model): model is string => !!model))).sort(),
+    [machines]
+  );
+
+  const problems = ruleSetProblems(draft);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(current);
+  const isDefault = draft.id === DEFAULT_RULE_SET_ID;
+
+  const update = (changes: Partial<RuleSet>) => setDraft(currentDraft => ({ ...currentDraft, ...changes }));
+
+  const updateRule = (index: number, changes: Partial<ThresholdRule>) => {
+    update({ rules: draft.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+  };
+
+  const updateLevel = (ruleIndex: number, levelIndex: number, field: 'value' | 'points', text: string) => {
+    const rule = draft.rules[ruleIndex];
+    updateRule(ruleIndex, {
+      risk: rule.risk.map((level, i) => (i === levelIndex ? { ...level, [field]: parseNumber(text) } : level))
+    });
+  };
+
+  const addRule = () => {
+    const channel = channelKeys.find(key => !draft.rules.some(rule => rule.channel === key)) ?? channelKeys[0];
+    const defaults = sensorChannel(channel);
+    update({
+      rules: [...draft.rules, {
+        channel,
+        direction: defaults.direction ?? 'above',
+        risk: defaults.risk ?? [{ value: NaN, points: 1 }]
+      }]
+    });
+  };
+
+  const toggleCriticality = (level: Criticality, checked: boolean) => {
+    update({ criticality: CRITICALITY_LEVELS.filter(l => (l === level ? checked : draft.criticality.includes(l))) });
+  };
+
+  const createRuleSet = () => {
+    const id = `rules-${Date.now().toString(36)}`;
+    // Starts from the rules on screen, as new sets are usually variations of them
+    setDraft({ ...draft, id, name: `${draft.name} (copy)`, version: 0, updatedAt: 0, models: [], criticality: [] });
+    setSelectedId(id);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="w-5 h-5" />
+          Risk Rules
+        </CardTitle>
+        <CardDescription>
+          Thresholds, points and level cut-offs that decide each machine's risk level. Machines use the rule set
+          assigned to their model, then to their criticality class, and otherwise the default set. Saving creates a
+          new version and re-scores the fleet.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="space-y-1 sm:w-64">
+            <Label htmlFor="rule-set">Rule set</Label>
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger id="rule-set">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {library.sets.map(set => (
+                  <SelectItem key={set.id} value={set.id}>{ruleSetLabel(set)}</SelectItem>
+                ))}
+                {!current && <SelectItem value={draft.id}>{draft.name} (unsaved)</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+          {versions.length > 0 && current && (
+            <div className="space-y-1 sm:w-64">
+              <Label htmlFor="rule-version">Load earlier version</Label>
+              <Select
+                value=""
+                onValueChange={(value) => {
+                  const version = versions.find(set => String(set.version) === value);
+                  // Keeps the id and version, so saving stores it as the next version
+                  if (version) setDraft({ ...version, version: current.version, updatedAt: current.updatedAt });
+                }}
+              >
+                <SelectTrigger id="rule-version">
+                  <SelectValue placeholder="Choose a version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map(set => (
+                    <SelectItem key={set.version} value={String(set.version)}>
+                      v{set.version} · {new Date(set.updatedAt).toLocaleString()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex gap-2 sm:ml-auto">
+            <Button variant="outline" onClick={createRuleSet}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Rule Set
+            </Button>
+            {!isDefault && current && (
+              <Button variant="outline" onClick={() => onDelete(draft.id)}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="rule-set-name">Name</Label>
+            <Input id="rule-set-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+          {!isDefault && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="rule-set-models">Machine models</Label>
+                <Input
+                  id="rule-set-models"
+                  value={draft.models.join(', ')}
+                  placeholder="e.g. PX-200, PX-300"
+                  list="rule-set-known-models"
+                  onChange={(e) => update({ models: e.target.value.split(',').map(model => model.trimStart()) })}
+                  onBlur={() => update({ models: draft.models.map(model => model.trim()).filter(Boolean) })}
+                />
+                <datalist id="rule-set-known-models">
+                  {knownModels.map(model => <option key={model} value={model} />)}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <Label>Criticality classes</Label>
+                <div className="flex items-center gap-4 h-9">
+                  {CRITICALITY_LEVELS.map(level => (
+                    <div key={level} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`rule-set-criticality-${level}`}
+                        checked={draft.criticality.includes(level)}
+                        onCheckedChange={(checked) => toggleCriticality(level, checked === true)}
+                      />
+                      <Label htmlFor={`rule-set-criticality-${level}`} className="font-normal">{level}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Channel</TableHead>
+                <TableHead>Risky when</TableHead>
+                <TableHead>Thresholds (value → points)</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {draft.rules.map((rule, ruleIndex) => (
+                <TableRow key={ruleIndex}>
+                  <TableCell className="min-w-48">
+                    <Select value={rule.channel} onValueChange={(channel) => updateRule(ruleIndex, { channel })}>
+                      <SelectTrigger aria-label="Channel">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {channelKeys.map(key => (
+                          <SelectItem key={key} value={key}>{channelLabel(sensorChannel(key))}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="min-w-32">
+                    <Select
+                      value={rule.direction}
+                      onValueChange={(direction) => updateRule(ruleIndex, { direction: direction as ThresholdRule['direction'] })}
+                    >
+                      <SelectTrigger aria-label="Direction">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="above">Above</SelectItem>
+                        <SelectItem value="below">Below</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {rule.risk.map((level, levelIndex) => (
+                        <div key={levelIndex} className="flex items-center gap-1 border rounded-md px-1">
+                          <Input
+                            type="number"
+                            className="h-8 w-24 border-0"
+                            aria-label="Threshold value"
+                            value={numberValue(level.value)}
+                            onChange={(e) => updateLevel(ruleIndex, levelIndex, 'value', e.target.value)}
+                          />
+                          <span className="text-muted-foreground">→</span>
+                          <Input
+                            type="number"
+                            className="h-8 w-16 border-0"
+                            aria-label="Points"
+                            value={numberValue(level.points)}
+                            onChange={(e) => updateLevel(ruleIndex, levelIndex, 'points', e.target.value)}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Remove threshold"
+                            onClick={() => updateRule(ruleIndex, { risk: rule.risk.filter((_, i) => i !== levelIndex) })}
+                          >
+                            <X className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateRule(ruleIndex, {
+                          risk: [...rule.risk, { value: NaN, points: Math.max(0, ...rule.risk.map(l => l.points)) + 1 }]
+                        })}
+                      >
+                        <Plus className="w-3 h-3 mr-1" />
+                        Level
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      aria-label={`Remove ${sensorChannel(rule.channel).label} rule`}
+                      onClick={() => update({ rules: draft.rules.filter((_, i) => i !== ruleIndex) })}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <Button variant="outline" size="sm" onClick={addRule}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Rule
+        </Button>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="rule-trend-temp">Rising temperature (°C)</Label>
+            <Input
+              id="rule-trend-temp"
+              type="number"
+              value={numberValue(draft.trend.temp_change)}
+              onChange={(e) => update({ trend: { ...draft.trend, temp_change: parseNumber(e.target.value) } })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-trend-vibration">Rising vibration (mm/s)</Label>
+            <Input
+              id="rule-trend-vibration"
+              type="number"
+              value={numberValue(draft.trend.vibration_change)}
+              onChange={(e) => update({ trend: { ...draft.trend, vibration_change: parseNumber(e.target.value) } })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-trend-points">Trend points</Label>
+            <Input
+              id="rule-trend-points"
+              type="number"
+              value={numberValue(draft.trend.points)}
+              onChange={(e) => update({ trend: { ...draft.trend, points: parseNumber(e.target.value) } })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-cutoff-at-risk">At Risk from (points)</Label>
+            <Input
+              id="rule-cutoff-at-risk"
+              type="number"
+              value={numberValue(draft.cutoffs.at_risk)}
+              onChange={(e) => update({ cutoffs: { ...draft.cutoffs, at_risk: parseNumber(e.target.value) } })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-cutoff-critical">Critical from (points)</Label>
+            <Input
+              id="rule-cutoff-critical"
+              type="number"
+              value={numberValue(draft.cutoffs.critical)}
+              onChange={(e) => update({ cutoffs: { ...draft.cutoffs, critical: parseNumber(e.target.value) } })}
+            />
+          </div>
+        </div>
+
+        {problems.length > 0 && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {problems.map(problem => <li key={problem}>{problem}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" disabled={!isDirty || !current} onClick={() => current && setDraft(current)}>
+            Discard Changes
+          </Button>
+          <Button disabled={!isDirty || problems.length > 0} onClick={() => onSave(draft)}>
+            <Save className="w-4 h-4 mr-2" />
+            {current ? `Save as v${current.version + 1}` : 'Save Rule Set'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { UNIT_LABELS, UnitQuantity, UnitSelection } from '../utils/units';
+
+interface UnitSelectorProps {
+  units: UnitSelection;
+  // Units read from header suffixes such as temp_F
+  detected?: Partial<UnitSelection>;
+  onUnitsChange: (units: UnitSelection) => void;
+}
+
+const QUANTITY_LABELS: Record<UnitQuantity, string> = {
+  temp: 'Temperature unit',
+  vibration: 'Vibration unit',
+  runtime: 'Runtime unit'
+};
+
+export function UnitSelector({ units, detected = {}, onUnitsChange }: UnitSelectorProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {(Object.keys(QUANTITY_LABELS) as UnitQuantity[]).map(quantity => {
+        const labels = UNIT_LABELS[quantity] as Record<string, string>;
+        return (
+          <div key={quantity} className="space-y-2">
+            <Label>{QUANTITY_LABELS[quantity]}</Label>
+            <Select
+              value={units[quantity]}
+              onValueChange={(value) => onUnitsChange({ ...units, [quantity]: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(labels).map(unit => (
+                  <SelectItem key={unit} value={unit}>
+                    {labels[unit]}{detected[quantity] === unit ? ' (from header)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
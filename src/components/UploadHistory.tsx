@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Check, FolderOpen, History, Pencil, Trash2, X } from 'lucide-react';
+import { RISK_LEVEL_ORDER, RiskLevelName, UploadRecord } from '../utils/uploadHistory';
+
+interface UploadHistoryProps {
+  history: UploadRecord[];
+  onOpen: (record: UploadRecord) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const RISK_BADGE_VARIANTS: Record<RiskLevelName, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  Healthy: 'default',
+  'At Risk': 'secondary',
+  Critical: 'destructive',
+  'Insufficient data': 'outline'
+};
+
+export function UploadHistory({ history, onOpen, onRename, onDelete }: UploadHistoryProps) {
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  if (history.length === 0) return null;
+
+  const saveName = () => {
+    if (editing && editing.name.trim() !== '') onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          Upload History
+        </CardTitle>
+        <CardDescription>
+          Earlier uploads, as scored when they were processed. Opening one replaces the machines on the dashboard.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>Rows</TableHead>
+                <TableHead>Risk Breakdown</TableHead>
+                <TableHead>Content Hash</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map(record => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-medium">
+                    {editing?.id === record.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          value={editing.name}
+                          autoFocus
+                          className="h-8 min-w-48"
+                          aria-label="Upload name"
+                          onChange={(e) => setEditing({ id: record.id, name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveName();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                        />
+                        <Button variant="ghost" size="sm" onClick={saveName} aria-label="Save name">
+                          <Check className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(null)} aria-label="Cancel rename">
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      record.name
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                    {new Date(record.uploadedAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm">{record.rowCount.toLocaleString()}</div>
+                    <div className="text-xs text-muted-foreground">{record.machines.length.toLocaleString()} machines</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {RISK_LEVEL_ORDER.filter(level => record.riskCounts[level]).map(level => (
+                        <Badge key={level} variant={RISK_BADGE_VARIANTS[level]}>
+                          {level}: {record.riskCounts[level]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs" title={record.hash}>
+                    {record.hash.slice(0, 12)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="outline" size="sm" onClick={() => onOpen(record)}>
+                        <FolderOpen className="w-4 h-4 mr-2" />
+                        Open
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing({ id: record.id, name: record.name })}
+                        aria-label={`Rename ${record.name}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete(record.id)}
+                        aria-label={`Delete ${record.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,219 +1,317 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Alert, AlertDescription } from './ui/alert';
 import { Progress } from './ui/progress';
-import { Upload, FileText, AlertCircle, CheckCircle, Brain, TrendingUp, BarChart3 } from 'lucide-react';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Textarea } from './ui/textarea';
+import { Upload, FileText, AlertCircle, CheckCircle, Brain, TrendingUp, BarChart3, X, ClipboardPaste, PencilLine, Dices } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, AreaChart, Area } from 'recharts';
 import { MachineData } from '../App';
 import { DataFormatExample } from './DataFormatExample';
+import { ImportPreview } from './ImportPreview';
+import { ColumnMappingStep } from './ColumnMappingStep';
+import { ImportOptions, detectImportOptions, previewRecords, readSample } from '../utils/formatDetection';
+import { ValidationReport } from './ValidationReport';
+import { WorkbookSheetPicker } from './WorkbookSheetPicker';
+import { MachineEditor } from './MachineEditor';
+import { FleetGenerator } from './FleetGenerator';
+import { RawMachineRow, readHeaders } from '../utils/parsers';
+import { RejectedRow, ValidationContext } from '../utils/validation';
+import { ColumnMapping, applyProfile, findProfileForHeaders, loadMappingProfiles, suggestMapping } from '../utils/columnMapping';
+import { CANONICAL_UNITS, UnitSelection, unitsFromHeaders } from '../utils/units';
+import { ImportCancelledError, ImportJob, startImportJob } from '../utils/importJob';
+import { Workbook, sheetToCsv } from '../utils/xlsx';
+import { ZipArchive, isZip } from '../utils/zip';
+import { UploadSource, readSourceSample, singleSource, zipSources } from '../utils/archives';
+import { MERGE_MODES, MergeMode } from '../utils/fleetMerge';
+import type { UploadInfo } from '../utils/uploadHistory';
+import type { ScoringSettings } from '../utils/riskModels';
+import type { ImportRequest } from '../workers/importWorker';
+
+interface PendingImport {
+  fileName: string;
+  // Data files of the upload; more than one for zip archives
+  sources: UploadSource[];
+  // Start of the first source, for detection and previews; the whole upload is only read by the worker
+  sample: Uint8Array;
+  detected: ImportOptions;
+}
+
+interface MappingState {
+  headers: string[];
+  sampleRows: string[][];
+  mapping: ColumnMapping;
+  profileName: string | null;
+}
+
+interface WorkbookState {
+  fileName: string;
+  workbook: Workbook;
+  sheetIndex: number;
+  // Cells of the selected sheet
+  rows: string[][];
+  // 1-based row holding the column names
+  headerRow: number;
+  isLoading: boolean;
+}
+
+interface ValidationState {
+  // Upload the rows came from, kept for its history entry
+  name: string;
+  hash: string;
+  accepted: RawMachineRow[];
+  rejected: RejectedRow[];
+  context: ValidationContext;
+}
+
+// Share of the progress bar for reading the file; scoring fills the rest
+const PARSE_PROGRESS_SHARE = 90;
 
 interface UploadViewProps {
-  onDataProcessed: (data: MachineData[]) => void;
-  existingDataCount: number;
+  onDataProcessed: (data: MachineData[], mode: MergeMode, upload: UploadInfo) => void;
+  onMachineSaved: (machine: MachineData) => void;
+  machines: MachineData[];
+  // Remembered between visits as a preference
+  mergeMode: MergeMode;
+  onMergeModeChange: (mode: MergeMode) => void;
+  // Engine to score uploads with, and the current rule sets and saved model
+  scoring: ScoringSettings;
 }
 
-export function UploadView({ onDataProcessed, existingDataCount }: UploadViewProps) {
+// Name given to pasted text so it can go through the file import
+const PASTED_FILE_NAME = 'Pasted data.txt';
+
+export function UploadView({
+  onDataProcessed,
+  onMachineSaved,
+  machines,
+  mergeMode,
+  onMergeModeChange,
+  scoring
+}: UploadViewProps) {
+  const existingDataCount = machines.length;
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingStep, setProcessingStep] = useState('');
   const [progress, setProgress] = useState(0);
+  const [isScoring, setIsScoring] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
-
-  // Mock AI processing function
-  const processWithAI = useCallback((data: any[]): MachineData[] => {
-    return data.map((row, index) => {
-      // Mock AI risk assessment based on temperature and vibration thresholds
-      const tempRisk = row.temp > 80 ? 2 : row.temp > 65 ? 1 : 0;
-      const vibrationRisk = row.vibration > 8 ? 2 : row.vibration > 5 ? 1 : 0;
-      const runtimeRisk = row.runtime > 20000 ? 1 : 0;
-      
-      const totalRisk = tempRisk + vibrationRisk + runtimeRisk;
-      
-      let risk_level: 'Healthy' | 'At Risk' | 'Critical';
-      let risk_score: number;
-      
-      if (totalRisk >= 4) {
-        risk_level = 'Critical';
-        risk_score = 0.8 + Math.random() * 0.2;
-      } else if (totalRisk >= 2) {
-        risk_level = 'At Risk';
-        risk_score = 0.4 + Math.random() * 0.4;
-      } else {
-        risk_level = 'Healthy';
-        risk_score = Math.random() * 0.3;
-      }
-
-      return {
-        machine_id: row.machine_id,
-        temp: parseFloat(row.temp),
-        vibration: parseFloat(row.vibration),
-        runtime: parseFloat(row.runtime),
-        risk_level,
-        risk_score,
-        prediction_confidence: 0.85 + Math.random() * 0.15
-      };
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importOptions, setImportOptions] = useState<ImportOptions | null>(null);
+  const [mappingState, setMappingState] = useState<MappingState | null>(null);
+  const [units, setUnits] = useState<UnitSelection>(CANONICAL_UNITS);
+  const [validationState, setValidationState] = useState<ValidationState | null>(null);
+  const [workbookState, setWorkbookState] = useState<WorkbookState | null>(null);
+  const [pastedText, setPastedText] = useState('');
+  const jobRef = useRef<ImportJob | null>(null);
+
+  // Moves to column mapping, applying a saved profile when one was made for
+  // the same set of headers
+  const beginMapping = useCallback((pending: PendingImport, options: ImportOptions) => {
+    const records = previewRecords(pending.sample, options);
+    if (records.length === 0) return;
+
+    const headers = readHeaders(records[0]);
+    const sampleRows = records.slice(1).map(r => r.fields.map(f => f.trim()));
+    const profile = findProfileForHeaders(loadMappingProfiles(), headers);
+    const mapping = profile ? applyProfile(profile, headers) : suggestMapping(headers, sampleRows);
+    setMappingState({
+      headers,
+      sampleRows,
+      mapping,
+      profileName: profile?.name ?? null
     });
+    setUnits(profile?.units ?? { ...CANONICAL_UNITS, ...unitsFromHeaders(headers, mapping) });
   }, []);
 
-  const parseData = useCallback((text: string) => {
-    const lines = text.trim().split('\n').filter(line => line.trim());
-    
-    if (lines.length < 1) {
-      throw new Error('File must contain at least one data row');
-    }
+  const startMapping = useCallback(() => {
+    if (pendingImport && importOptions) beginMapping(pendingImport, importOptions);
+  }, [pendingImport, importOptions, beginMapping]);
 
-    // Check if it's CSV format (has commas and headers)
-    const firstLine = lines[0];
-    const isCSV = firstLine.toLowerCase().includes('machine_id') && firstLine.includes(',');
-    
-    if (isCSV) {
-      return parseCSVFormat(lines);
-    } else {
-      return parseTextFormat(lines);
+  const loadSheet = useCallback(async (state: WorkbookState, sheetIndex: number) => {
+    setWorkbookState({ ...state, sheetIndex, rows: [], headerRow: 1, isLoading: true });
+    try {
+      const rows = await state.workbook.readSheet(state.workbook.sheets[sheetIndex]);
+      const firstFilled = rows.findIndex(cells => cells.some(cell => cell.trim() !== ''));
+      setWorkbookState({ ...state, sheetIndex, rows, headerRow: Math.max(firstFilled, 0) + 1, isLoading: false });
+    } catch (err) {
+      setWorkbookState({ ...state, sheetIndex, rows: [], headerRow: 1, isLoading: false });
+      setError(err instanceof Error ? err.message : 'Failed to read sheet');
     }
   }, []);
 
-  const parseCSVFormat = useCallback((lines: string[]) => {
-    if (lines.length < 2) {
-      throw new Error('CSV file must contain at least a header row and one data row');
-    }
-
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const requiredHeaders = ['machine_id', 'temp', 'vibration', 'runtime'];
-    
-    const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
-    if (missingHeaders.length > 0) {
-      throw new Error(`Missing required columns: ${missingHeaders.join(', ')}`);
-    }
+  const handleFileUpload = useCallback(async (file: File) => {
+    setError(null);
+    setFileName(file.name);
+    setPendingImport(null);
+    setWorkbookState(null);
+    setMappingState(null);
+    setValidationState(null);
 
-    const data = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      if (values.length !== headers.length) {
-        throw new Error(`Row ${i + 1} has ${values.length} columns, expected ${headers.length}`);
+    try {
+      if (file.size === 0) {
+        throw new Error('File must contain at least one data row');
       }
 
-      const row: any = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index];
-      });
-
-      // Validate numeric fields
-      const numericFields = ['temp', 'vibration', 'runtime'];
-      for (const field of numericFields) {
-        if (isNaN(parseFloat(row[field]))) {
-          throw new Error(`Invalid ${field} value in row ${i + 1}: ${row[field]}`);
+      const head = await readSample(file);
+      let sources: UploadSource[];
+      if (isZip(head)) {
+        const archive = await ZipArchive.open(file);
+        if (Workbook.isWorkbook(archive)) {
+          const workbook = await Workbook.fromArchive(archive);
+          await loadSheet({ fileName: file.name, workbook, sheetIndex: 0, rows: [], headerRow: 1, isLoading: true }, 0);
+          return;
         }
+        sources = zipSources(file, archive);
+      } else {
+        sources = [singleSource(file, head)];
       }
 
-      data.push(row);
-    }
-
-    return data;
-  }, []);
-
-  const parseTextFormat = useCallback((lines: string[]) => {
-    const data = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-      
-      // Parse formats like: "MACH009 78 6.4 18030" or "MACH009,78,6.4,18030"
-      const parts = line.split(/[\s,]+/).filter(part => part.trim());
-      
-      if (parts.length < 4) {
-        throw new Error(`Row ${i + 1} has insufficient data. Expected: machine_id, temp, vibration, runtime`);
-      }
-
-      const machineId = parts[0];
-      const temp = parseFloat(parts[1]);
-      const vibration = parseFloat(parts[2]);
-      const runtime = parseFloat(parts[3]);
-
-      // Validate numeric values
-      if (isNaN(temp)) {
-        throw new Error(`Invalid temperature value in row ${i + 1}: ${parts[1]}`);
-      }
-      if (isNaN(vibration)) {
-        throw new Error(`Invalid vibration value in row ${i + 1}: ${parts[2]}`);
-      }
-      if (isNaN(runtime)) {
-        throw new Error(`Invalid runtime value in row ${i + 1}: ${parts[3]}`);
-      }
-
-      data.push({
-        machine_id: machineId,
-        temp,
-        vibration,
-        runtime
-      });
-    }
-
-    if (data.length === 0) {
-      throw new Error('No valid data rows found in file');
+      // Files of an archive are assumed to share the format of the first one
+      const sample = sources[0].kind === 'file' ? head : await readSourceSample(sources[0]);
+      const detected = detectImportOptions(sample);
+      setPendingImport({ fileName: file.name, sources, sample, detected });
+      setImportOptions(detected);
+      setUnits(CANONICAL_UNITS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
     }
-
-    return data;
+  }, [loadSheet]);
+
+  // The chosen sheet is handed on as CSV, so it goes through the same mapping
+  // and validation as a CSV upload
+  const confirmSheet = useCallback(async () => {
+    if (!workbookState) return;
+    const sheet = workbookState.workbook.sheets[workbookState.sheetIndex];
+    const csv = sheetToCsv(workbookState.rows, workbookState.headerRow);
+    const file = new File([csv], `${workbookState.fileName} - ${sheet.name}.csv`, { type: 'text/csv' });
+    const options: ImportOptions = { format: 'delimited', encoding: 'utf-8', delimiter: ',', decimalSeparator: '.', hasHeader: true };
+    const pending: PendingImport = {
+      fileName: workbookState.fileName,
+      sources: [{ kind: 'file', name: file.name, file }],
+      sample: await readSample(file),
+      detected: options
+    };
+
+    setPendingImport(pending);
+    setImportOptions(options);
+    setValidationState(null);
+    beginMapping(pending, options);
+  }, [workbookState, beginMapping]);
+
+  const handleMappingChange = useCallback((mapping: ColumnMapping, profileName: string | null) => {
+    if (!mappingState) return;
+    setMappingState({ ...mappingState, mapping, profileName });
+    // A newly mapped header may declare its unit, e.g. vibration_in_s
+    setUnits(current => ({ ...current, ...unitsFromHeaders(mappingState.headers, mapping) }));
+  }, [mappingState]);
+
+  // JSON fields missing from the sampled records can still be mapped by path
+  const handleAddPath = useCallback((path: string) => {
+    if (!pendingImport || !importOptions || !mappingState || mappingState.headers.includes(path)) return;
+    const headers = [...mappingState.headers, path];
+    const records = previewRecords(pendingImport.sample, importOptions, undefined, headers);
+    setMappingState({
+      ...mappingState,
+      headers,
+      sampleRows: records.slice(1).map(r => r.fields),
+      mapping: { ...mappingState.mapping, [path]: null }
+    });
+  }, [pendingImport, importOptions, mappingState]);
+
+  const resetImport = useCallback(() => {
+    setWorkbookState(null);
+    setPendingImport(null);
+    setImportOptions(null);
+    setMappingState(null);
+    setValidationState(null);
   }, []);
 
-  const handleFileUpload = useCallback(async (file: File) => {
+  // Runs a worker job and routes its outcome: problem rows to the validation
+  // report, scored machines to the dashboard. name labels the upload in the history.
+  const runJob = useCallback(async (request: ImportRequest, name: string) => {
     setError(null);
     setIsProcessing(true);
     setProgress(0);
-    setFileName(file.name);
+    setProcessingStep(request.type === 'parse' ? 'Reading file...' : 'Running AI risk analysis...');
+
+    const job = startImportJob(request, (update) => {
+      if (update.type === 'progress') {
+        setProcessingStep(`Parsing data... ${update.rowCount.toLocaleString()} rows read`);
+        setProgress(Math.floor((update.bytesRead / Math.max(update.totalBytes, 1)) * PARSE_PROGRESS_SHARE));
+      } else if (update.type === 'scoring') {
+        setIsScoring(true);
+        setProcessingStep(
+          `Running AI risk analysis... ${update.scoredRows.toLocaleString()} of ${update.rowCount.toLocaleString()} rows scored`
+        );
+        // Rows sent for scoring alone have no parsing share of the bar
+        const start = request.type === 'parse' ? PARSE_PROGRESS_SHARE : 0;
+        setProgress(Math.floor(start + (update.scoredRows / Math.max(update.rowCount, 1)) * (100 - start)));
+      }
+    });
+    jobRef.current = job;
 
     try {
-      // Step 1: Read file
-      setProcessingStep('Reading file...');
-      setProgress(20);
-      
-      const text = await file.text();
-      
-      // Step 2: Parse CSV
-      setProcessingStep('Parsing CSV data...');
-      setProgress(40);
-      await new Promise(resolve => setTimeout(resolve, 500)); // Simulate processing
-      
-      const rawData = parseData(text);
-      
-      // Step 3: Validate data
-      setProcessingStep('Validating data quality...');
-      setProgress(60);
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      if (rawData.length === 0) {
-        throw new Error('No data rows found in CSV file');
-      }
-      
-      if (rawData.length > 10000) {
-        throw new Error('CSV file too large. Maximum 10,000 rows allowed.');
+      const outcome = await job.result;
+      if (outcome.type === 'needsReview') {
+        // Problem rows wait for the user to fix or drop them
+        setValidationState({
+          name,
+          hash: outcome.hash,
+          accepted: outcome.rows,
+          rejected: outcome.rejected,
+          context: { decimalSeparator: importOptions?.decimalSeparator ?? '.', units }
+        });
+      } else if (outcome.type === 'done') {
+        resetImport();
+        // With nothing loaded yet every mode gives the same fleet
+        onDataProcessed(outcome.data, existingDataCount > 0 ? mergeMode : 'replace', { name, hash: outcome.hash });
       }
-
-      // Step 4: AI Processing
-      setProcessingStep('Running AI risk analysis...');
-      setProgress(80);
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate AI processing
-      
-      const processedData = processWithAI(rawData);
-      
-      // Step 5: Complete
-      setProcessingStep('Analysis complete!');
-      setProgress(100);
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      onDataProcessed(processedData);
-      
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process file');
+      if (!(err instanceof ImportCancelledError)) {
+        setError(err instanceof Error ? err.message : 'Failed to process file');
+      }
     } finally {
+      jobRef.current = null;
       setIsProcessing(false);
+      setIsScoring(false);
       setProcessingStep('');
       setProgress(0);
     }
-  }, [parseData, processWithAI, onDataProcessed]);
+  }, [importOptions, units, resetImport, onDataProcessed, existingDataCount, mergeMode]);
+
+  const runAnalysis = useCallback(() => {
+    if (!pendingImport || !importOptions) return;
+    runJob({
+      type: 'parse',
+      sources: pendingImport.sources,
+      options: importOptions,
+      settings: { mapping: mappingState?.mapping, units },
+      scoring
+    }, pendingImport.fileName);
+  }, [pendingImport, importOptions, mappingState, units, scoring, runJob]);
+
+  const analyzeRows = useCallback((rows: RawMachineRow[]) => {
+    if (!validationState) return;
+    runJob({ type: 'score', rows, hash: validationState.hash, scoring }, validationState.name);
+  }, [validationState, scoring, runJob]);
+
+  // Generated rows are already valid, so they skip preview and mapping
+  const loadGeneratedFleet = useCallback((rows: RawMachineRow[], name: string) => {
+    resetImport();
+    setFileName(name);
+    runJob({ type: 'score', rows, scoring }, name);
+  }, [resetImport, scoring, runJob]);
+
+  // The selected file and settings are kept, so the analysis can be started again
+  const cancelProcessing = useCallback(() => {
+    jobRef.current?.cancel();
+  }, []);
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -223,12 +321,19 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
     const dataFile = files.find(file => 
       file.name.endsWith('.csv') || 
       file.name.endsWith('.txt') || 
+      file.name.endsWith('.json') ||
+      file.name.endsWith('.ndjson') ||
+      file.name.endsWith('.jsonl') ||
+      file.name.endsWith('.xlsx') ||
+      file.name.endsWith('.gz') ||
+      file.name.endsWith('.zip') ||
       file.type === 'text/plain' ||
-      file.type === 'text/csv'
+      file.type === 'text/csv' ||
+      file.type === 'application/json'
     );
     
     if (!dataFile) {
-      setError('Please upload a CSV or text file');
+      setError('Please upload a CSV, text, JSON, Excel or archive file');
       return;
     }
     
@@ -242,6 +347,12 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
     }
   }, [handleFileUpload]);
 
+  // Cells copied from a spreadsheet arrive as tab-separated lines, which the
+  // delimiter detection already handles
+  const handlePastedData = useCallback(() => {
+    handleFileUpload(new File([pastedText], PASTED_FILE_NAME, { type: 'text/plain' }));
+  }, [pastedText, handleFileUpload]);
+
   // Sample data for background visualization
   const sampleAnalyticsData = [
     { name: 'Week 1', healthy: 85, atRisk: 12, critical: 3 },
@@ -312,18 +423,25 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
             <div>
               <p className="font-medium">Supported file formats:</p>
               <ul className="space-y-1 text-muted-foreground ml-4 mt-2">
-                <li>• <strong>CSV format:</strong> Headers with comma-separated values</li>
+                <li>• <strong>CSV format:</strong> Headers with comma-separated values (RFC 4180 quoting supported)</li>
                 <li>• <strong>Text format:</strong> Space or comma-separated data rows</li>
+                <li>• <strong>Archives:</strong> .gz files and .zip archives; every CSV, text or JSON file in a zip is merged into one dataset</li>
+                <li>• <strong>Excel workbooks:</strong> .xlsx files; pick the sheet and header row after upload</li>
+                <li>• <strong>JSON / NDJSON:</strong> An array of objects or one object per line; nested values are mapped by field path, e.g. <code>sensors.temperature.value</code></li>
+                <li>• <strong>Regional exports:</strong> Semicolon or tab delimiters, decimal commas, UTF-8, UTF-16 and Latin-1 are detected automatically</li>
               </ul>
             </div>
             
             <div>
-              <p className="font-medium">Required data fields:</p>
+              <p className="font-medium">Required data fields (columns with other names can be mapped after upload):</p>
               <ul className="space-y-1 text-muted-foreground ml-4 mt-2">
                 <li>• <code>machine_id</code> - Unique identifier for each machine</li>
-                <li>• <code>temp</code> - Temperature reading (°C)</li>
-                <li>• <code>vibration</code> - Vibration level (mm/s)</li>
-                <li>• <code>runtime</code> - Total runtime hours</li>
+                <li>• <code>temp</code> - Temperature reading (°C, or °F/K with a suffix such as <code>temp_F</code>)</li>
+                <li>• <code>vibration</code> - Vibration level (mm/s, or in/s as <code>vibration_in_s</code>)</li>
+                <li>• <code>runtime</code> - Total runtime hours (or <code>runtime_min</code>, <code>runtime_s</code>, <code>runtime_days</code>)</li>
+                <li>• <code>timestamp</code> - Optional reading time (ISO 8601 or Unix epoch); repeated machine IDs are treated as a time series</li>
+                <li>• Optional sensor columns such as <code>pressure</code>, <code>motor_current</code>, <code>rpm</code> or <code>oil_quality</code>; any other numeric column is kept as an extra sensor</li>
+                <li>• Optional asset columns <code>site</code>, <code>line</code>, <code>model</code>, <code>install_date</code> and <code>criticality</code> (High/Medium/Low or A/B/C); they are remembered for later uploads</li>
               </ul>
             </div>
           </div>
@@ -331,7 +449,7 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
           <Alert>
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              Maximum file size: 50MB. Up to 10,000 machine records supported. Accepts .csv and .txt files.
+              Files are read in the background, so large historian exports (millions of rows) can be analyzed without freezing the page. Accepts .csv, .txt, .json, .ndjson and .xlsx files, and .gz or .zip archives of them. Rows with missing, invalid or duplicate values are listed for review instead of failing the upload. Readings outside normal operating ranges, repeated values and outliers lower a machine's data quality, and machines with too little trustworthy data are marked Insufficient data.
             </AlertDescription>
           </Alert>
         </CardContent>
@@ -339,7 +457,27 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
 
       {/* File Upload Area */}
       <Card>
-        <CardContent className="p-6">
+        <CardContent className="p-6 space-y-4">
+          {existingDataCount > 0 && !isProcessing && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <Label className="shrink-0">
+                Combine with the {existingDataCount.toLocaleString()} machines already loaded:
+              </Label>
+              <Select value={mergeMode} onValueChange={(value) => onMergeModeChange(value as MergeMode)}>
+                <SelectTrigger className="sm:w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MERGE_MODES.map(({ mode, label }) => (
+                    <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {MERGE_MODES.find(m => m.mode === mergeMode)?.description}
+              </p>
+            </div>
+          )}
           <div
             className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
               isDragging
@@ -377,8 +515,15 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
                   <p className="text-sm text-muted-foreground text-center">
                     Processing <span className="font-medium text-foreground">{fileName}</span>
                   </p>
+
+                  <div className="flex justify-center">
+                    <Button variant="outline" size="sm" onClick={cancelProcessing}>
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </div>
                   
-                  {progress > 60 && (
+                  {isScoring && (
                     <div className="text-xs text-muted-foreground text-center mt-4 animate-fade-in">
                       <p>🔍 Running machine health analysis...</p>
                       <p className="mt-1">🧠 AI is evaluating risk patterns...</p>
@@ -402,7 +547,7 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
                     {isDragging ? 'Drop your data file here' : 'Drag & drop your data file here'}
                   </p>
                   <p className="text-sm text-muted-foreground">
-                    Supports CSV and text formats • or click to browse files
+                    Supports CSV, text, JSON and Excel formats • or click to browse files
                   </p>
                 </div>
                 
@@ -413,7 +558,7 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
                       Choose Data File
                       <input
                         type="file"
-                        accept=".csv,.txt,text/plain,text/csv"
+                        accept=".csv,.txt,.json,.ndjson,.jsonl,.xlsx,.gz,.zip,text/plain,text/csv,application/json"
                         onChange={handleFileInput}
                         className="hidden"
                       />
@@ -426,6 +571,116 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
         </CardContent>
       </Card>
 
+      {/* Paste and Manual Entry */}
+      {!isProcessing && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardPaste className="w-5 h-5" />
+                Paste Data
+              </CardTitle>
+              <CardDescription>
+                Paste rows copied from a spreadsheet or text file, with or without a header row.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                placeholder={'machine_id\ttemp\tvibration\truntime\nMACH001\t72.5\t4.2\t15680'}
+                className="font-mono min-h-32 max-h-64 overflow-auto"
+              />
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={handlePastedData} disabled={pastedText.trim() === ''}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Preview Pasted Data
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PencilLine className="w-5 h-5" />
+                Enter Readings
+              </CardTitle>
+              <CardDescription>
+                Score a single machine without a file. Entering an existing machine ID adds a reading to its history.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MachineEditor machines={machines} scoring={scoring} onSave={onMachineSaved} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Workbook Sheet Picker */}
+      {workbookState && !pendingImport && !isProcessing && (
+        <WorkbookSheetPicker
+          fileName={workbookState.fileName}
+          sheets={workbookState.workbook.sheets}
+          sheetIndex={workbookState.sheetIndex}
+          rows={workbookState.rows}
+          headerRow={workbookState.headerRow}
+          isLoading={workbookState.isLoading}
+          onSheetChange={(index) => loadSheet(workbookState, index)}
+          onHeaderRowChange={(headerRow) => setWorkbookState({ ...workbookState, headerRow })}
+          onConfirm={confirmSheet}
+          onCancel={resetImport}
+        />
+      )}
+
+      {/* Import Preview */}
+      {pendingImport && importOptions && !mappingState && !validationState && !isProcessing && (
+        <ImportPreview
+          fileName={pendingImport.fileName}
+          sourceNames={pendingImport.sources.map(source => source.name)}
+          bytes={pendingImport.sample}
+          options={importOptions}
+          detected={pendingImport.detected}
+          onOptionsChange={setImportOptions}
+          onConfirm={importOptions.hasHeader ? startMapping : runAnalysis}
+          onCancel={resetImport}
+          units={units}
+          onUnitsChange={setUnits}
+          confirmLabel={importOptions.hasHeader ? 'Next: Map Columns' : undefined}
+        />
+      )}
+
+      {/* Column Mapping */}
+      {pendingImport && mappingState && !validationState && !isProcessing && (
+        <ColumnMappingStep
+          headers={mappingState.headers}
+          sampleRows={mappingState.sampleRows}
+          mapping={mappingState.mapping}
+          appliedProfile={mappingState.profileName}
+          units={units}
+          onMappingChange={handleMappingChange}
+          onUnitsChange={setUnits}
+          onAddHeader={importOptions?.format !== 'delimited' ? handleAddPath : undefined}
+          onBack={() => {
+            setMappingState(null);
+            // Workbooks go back to the sheet picker rather than the preview of the converted sheet
+            if (workbookState) setPendingImport(null);
+          }}
+          onConfirm={runAnalysis}
+        />
+      )}
+
+      {/* Validation Report */}
+      {validationState && !isProcessing && (
+        <ValidationReport
+          accepted={validationState.accepted}
+          rejected={validationState.rejected}
+          context={validationState.context}
+          onContinue={analyzeRows}
+          onAbort={resetImport}
+        />
+      )}
+
       {/* Error Display */}
       {error && (
         <Alert variant="destructive">
@@ -439,7 +694,7 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
         <Alert>
           <CheckCircle className="h-4 w-4" />
           <AlertDescription>
-            Successfully processed {existingDataCount} machines. View results in the Dashboard tab.
+            {existingDataCount.toLocaleString()} machines are loaded. View results in the Dashboard tab.
           </AlertDescription>
         </Alert>
       )}
@@ -480,72 +735,29 @@ export function UploadView({ onDataProcessed, existingDataCount }: UploadViewPro
               </div>
             </div>
           </div>
-
-          <div className="flex flex-col sm:flex-row gap-3">
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                const sampleData = [
-                  'machine_id,temp,vibration,runtime',
-                  'MACH001,72.5,4.2,15680',
-                  'MACH002,85.1,7.8,22340',
-                  'MACH003,68.3,3.1,8920',
-                  'MACH004,91.2,9.5,25100',
-                  'MACH005,65.8,2.8,12400',
-                  'MACH006,78.4,6.1,18750',
-                  'MACH007,82.7,8.9,21900',
-                  'MACH008,59.2,1.9,9800',
-                  'MACH009,88.6,7.3,19200',
-                  'MACH010,74.1,5.4,16800'
-                ].join('\n');
-
-                const blob = new Blob([sampleData], { type: 'text/csv' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = 'sample_machine_data.csv';
-                a.click();
-                URL.revokeObjectURL(url);
-              }}
-            >
-              <FileText className="w-4 h-4 mr-2" />
-              Download Sample CSV
-            </Button>
-
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                const sampleData = [
-                  'MACH001 72.5 4.2 15680',
-                  'MACH002 85.1 7.8 22340',
-                  'MACH003 68.3 3.1 8920',
-                  'MACH004 91.2 9.5 25100',
-                  'MACH005 65.8 2.8 12400',
-                  'MACH006 78.4 6.1 18750',
-                  'MACH007 82.7 8.9 21900',
-                  'MACH008 59.2 1.9 9800',
-                  'MACH009 88.6 7.3 19200',
-                  'MACH010 74.1 5.4 16800'
-                ].join('\n');
-
-                const blob = new Blob([sampleData], { type: 'text/plain' });
-                const url = URL.createObjectURL(blob);
-                const a = document.createElement('a');
-                a.href = url;
-                a.download = 'sample_machine_data.txt';
-                a.click();
-                URL.revokeObjectURL(url);
-              }}
-            >
-              <FileText className="w-4 h-4 mr-2" />
-              Download Sample TXT
-            </Button>
-          </div>
         </CardContent>
       </Card>
 
+      {/* Synthetic Fleet Generator */}
+      {!isProcessing && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Dices className="w-5 h-5" />
+              Generate Sample Fleet
+            </CardTitle>
+            <CardDescription>
+              Create test data with machines that develop known faults. The same settings and seed always give the same fleet.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FleetGenerator onLoad={loadGeneratedFleet} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Enhanced Data Format Examples */}
-      <DataFormatExample />
+      <DataFormatExample ruleSets={scoring.ruleSets} />
     </div>
   );
 }
@@ -0,0 +1,267 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { AlertTriangle, Brain, Check, Trash2, X } from 'lucide-react';
+import type { RawMachineRow } from '../utils/parsers';
+import {
+  FieldValues,
+  ISSUE_LABELS,
+  IssueKind,
+  RejectedRow,
+  TextField,
+  ValidationContext,
+  duplicateIssue,
+  duplicateKey,
+  validateRow
+} from '../utils/validation';
+import { sensorChannel } from '../utils/sensors';
+import { ASSET_FIELDS, ASSET_LABELS, AssetField } from '../utils/assets';
+
+interface ValidationReportProps {
+  accepted: RawMachineRow[];
+  rejected: RejectedRow[];
+  context: ValidationContext;
+  onContinue: (rows: RawMachineRow[]) => void;
+  onAbort: () => void;
+}
+
+interface ReportEntry extends RejectedRow {
+  // Line numbers repeat across the files of an archive, so entries get their own key
+  id: number;
+  draft: FieldValues;
+}
+
+const EDITABLE_FIELDS: { field: TextField; label: string; className: string }[] = [
+  { field: 'machine_id', label: 'Machine ID', className: 'w-32' },
+  { field: 'temp', label: 'Temperature', className: 'w-24' },
+  { field: 'vibration', label: 'Vibration', className: 'w-24' },
+  { field: 'runtime', label: 'Runtime', className: 'w-28' },
+  { field: 'timestamp', label: 'Timestamp', className: 'w-48' }
+];
+
+// Rendering thousands of editable rows would freeze the page
+const MAX_VISIBLE_ENTRIES = 200;
+
+export function ValidationReport({ accepted, rejected, context, onContinue, onAbort }: ValidationReportProps) {
+  const [entries, setEntries] = useState<ReportEntry[]>(() => rejected.map((r, id) => ({ ...r, id, draft: { ...r.values } })));
+  const [fixed, setFixed] = useState<RawMachineRow[]>([]);
+  const [droppedCount, setDroppedCount] = useState(0);
+
+  // Keys of every accepted reading, so a fixed row cannot duplicate one
+  const acceptedKeys = useMemo(() => new Set(accepted.map(duplicateKey)), [accepted]);
+  const fixedKeys = useRef(new Set<string>());
+
+  const issueCounts = useMemo(() => {
+    const counts = new Map<IssueKind, number>();
+    entries.forEach(entry => entry.issues.forEach(issue => counts.set(issue.kind, (counts.get(issue.kind) ?? 0) + 1)));
+    return counts;
+  }, [entries]);
+
+  // Only worth a column when rows came from more than one file
+  const showSource = useMemo(() => new Set(rejected.map(r => r.source)).size > 1, [rejected]);
+
+  // Extra sensor channels get a column only when one of their values has a problem
+  const sensorKeys = useMemo(() => {
+    const keys = new Set<string>();
+    rejected.forEach(r => r.issues.forEach(issue => issue.sensor !== undefined && keys.add(issue.sensor)));
+    return Array.from(keys);
+  }, [rejected]);
+
+  // Likewise for asset metadata
+  const assetFields = useMemo(() => {
+    const fields = new Set(rejected.flatMap(r => r.issues.map(issue => issue.assetField)));
+    return ASSET_FIELDS.filter(field => fields.has(field));
+  }, [rejected]);
+
+  const updateDraft = (id: number, field: TextField, value: string) => {
+    setEntries(current => current.map(entry =>
+      entry.id === id ? { ...entry, draft: { ...entry.draft, [field]: value } } : entry
+    ));
+  };
+
+  const updateAssetDraft = (id: number, field: AssetField, value: string) => {
+    setEntries(current => current.map(entry =>
+      entry.id === id ? { ...entry, draft: { ...entry.draft, asset: { ...entry.draft.asset, [field]: value } } } : entry
+    ));
+  };
+
+  const updateSensorDraft = (id: number, key: string, value: string) => {
+    setEntries(current => current.map(entry =>
+      entry.id === id ? { ...entry, draft: { ...entry.draft, sensors: { ...entry.draft.sensors, [key]: value } } } : entry
+    ));
+  };
+
+  const recheck = (entry: ReportEntry) => {
+    const { row, issues } = validateRow(entry.draft, entry.line, context);
+    if (row) {
+      const key = duplicateKey(row);
+      if (!acceptedKeys.has(key) && !fixedKeys.current.has(key)) {
+        if (entry.source !== undefined) row.source = entry.source;
+        fixedKeys.current.add(key);
+        setFixed(current => [...current, row]);
+        setEntries(current => current.filter(e => e.id !== entry.id));
+        return;
+      }
+      issues.push(duplicateIssue(row, entry.line));
+    }
+    setEntries(current => current.map(e => (e.id === entry.id ? { ...e, issues } : e)));
+  };
+
+  const drop = (id: number) => {
+    setEntries(current => current.filter(e => e.id !== id));
+    setDroppedCount(count => count + 1);
+  };
+
+  const dropAll = () => {
+    setDroppedCount(count => count + entries.length);
+    setEntries([]);
+  };
+
+  const handleContinue = () => {
+    // Archive files are read in name order, so this restores the order they were read in
+    const byPosition = (a: RawMachineRow, b: RawMachineRow) =>
+      (a.source ?? '').localeCompare(b.source ?? '') || a.line - b.line;
+    onContinue(fixed.length > 0 ? [...accepted, ...fixed].sort(byPosition) : accepted);
+  };
+
+  const usableCount = accepted.length + fixed.length;
+  const visibleEntries = entries.slice(0, MAX_VISIBLE_ENTRIES);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-yellow-600" />
+          Validation Report
+        </CardTitle>
+        <CardDescription>
+          {usableCount.toLocaleString()} rows passed validation
+          {fixed.length > 0 && ` (${fixed.length} fixed)`}, {entries.length.toLocaleString()} rows have problems
+          {droppedCount > 0 && `, ${droppedCount.toLocaleString()} dropped`}.
+          Fix rows inline and re-check them, drop them, or abort the upload. Only accepted rows are analyzed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {issueCounts.size > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {Array.from(issueCounts, ([kind, count]) => (
+              <Badge key={kind} variant="outline">
+                {ISSUE_LABELS[kind]}: {count.toLocaleString()}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {showSource && <TableHead>File</TableHead>}
+                  <TableHead>Line</TableHead>
+                  {EDITABLE_FIELDS.map(({ field, label }) => (
+                    <TableHead key={field}>{label}</TableHead>
+                  ))}
+                  {sensorKeys.map(key => (
+                    <TableHead key={key}>{sensorChannel(key).label}</TableHead>
+                  ))}
+                  {assetFields.map(field => (
+                    <TableHead key={field}>{ASSET_LABELS[field]}</TableHead>
+                  ))}
+                  <TableHead>Problems</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleEntries.map(entry => {
+                  const invalidFields = new Set(entry.issues.map(issue => issue.field));
+                  const invalidSensors = new Set(entry.issues.map(issue => issue.sensor));
+                  const invalidAssetFields = new Set(entry.issues.map(issue => issue.assetField));
+                  return (
+                    <TableRow key={entry.id}>
+                      {showSource && <TableCell className="font-mono text-sm">{entry.source}</TableCell>}
+                      <TableCell className="font-mono">{entry.line}</TableCell>
+                      {EDITABLE_FIELDS.map(({ field, label, className }) => (
+                        <TableCell key={field}>
+                          <Input
+                            value={entry.draft[field]}
+                            onChange={(e) => updateDraft(entry.id, field, e.target.value)}
+                            aria-label={`${label} at line ${entry.line}`}
+                            aria-invalid={invalidFields.has(field)}
+                            className={`h-8 font-mono ${className}`}
+                          />
+                        </TableCell>
+                      ))}
+                      {sensorKeys.map(key => (
+                        <TableCell key={key}>
+                          <Input
+                            value={entry.draft.sensors?.[key] ?? ''}
+                            onChange={(e) => updateSensorDraft(entry.id, key, e.target.value)}
+                            aria-label={`${sensorChannel(key).label} at line ${entry.line}`}
+                            aria-invalid={invalidSensors.has(key)}
+                            className="h-8 font-mono w-24"
+                          />
+                        </TableCell>
+                      ))}
+                      {assetFields.map(field => (
+                        <TableCell key={field}>
+                          <Input
+                            value={entry.draft.asset?.[field] ?? ''}
+                            onChange={(e) => updateAssetDraft(entry.id, field, e.target.value)}
+                            aria-label={`${ASSET_LABELS[field]} at line ${entry.line}`}
+                            aria-invalid={invalidAssetFields.has(field)}
+                            className="h-8 font-mono w-32"
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-sm text-red-600 whitespace-normal min-w-48">
+                        {entry.issues.map((issue, i) => (
+                          <div key={i}>{issue.message}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => recheck(entry)} title="Re-check this row">
+                            <Check className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => drop(entry.id)} title="Drop this row">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {entries.length > visibleEntries.length && (
+              <p className="p-3 text-sm text-muted-foreground text-center border-t">
+                Showing the first {MAX_VISIBLE_ENTRIES} of {entries.length.toLocaleString()} rows with problems.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-end">
+          <Button variant="outline" onClick={onAbort}>
+            <X className="w-4 h-4 mr-2" />
+            Abort Upload
+          </Button>
+          {entries.length > 0 && (
+            <Button variant="outline" onClick={dropAll}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Drop All Remaining
+            </Button>
+          )}
+          <Button onClick={handleContinue} disabled={usableCount === 0}>
+            <Brain className="w-4 h-4 mr-2" />
+            Analyze {usableCount.toLocaleString()} Rows
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
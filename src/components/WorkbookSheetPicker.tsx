@@ -0,0 +1,141 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ArrowRight, Sheet, X } from 'lucide-react';
+import type { WorkbookSheet } from '../utils/xlsx';
+
+interface WorkbookSheetPickerProps {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  sheetIndex: number;
+  rows: string[][];
+  headerRow: number;
+  isLoading: boolean;
+  onSheetChange: (index: number) => void;
+  onHeaderRowChange: (row: number) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 12;
+// Header rows further down than this are rare enough to not offer
+const HEADER_ROW_CHOICES = 20;
+const LABEL_CELLS = 3;
+
+export function WorkbookSheetPicker({
+  fileName,
+  sheets,
+  sheetIndex,
+  rows,
+  headerRow,
+  isLoading,
+  onSheetChange,
+  onHeaderRowChange,
+  onConfirm,
+  onCancel
+}: WorkbookSheetPickerProps) {
+  const previewRows = rows.slice(0, Math.max(PREVIEW_ROWS, headerRow + 5));
+  const columnCount = Math.max(0, ...previewRows.map(row => row.length));
+  const headerChoices = rows.slice(0, HEADER_ROW_CHOICES).map((cells, index) => ({
+    row: index + 1,
+    label: cells.filter(cell => cell.trim() !== '').slice(0, LABEL_CELLS).join(', ') || '(empty)'
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sheet className="w-5 h-5" />
+          Workbook: {fileName}
+        </CardTitle>
+        <CardDescription>
+          Choose the sheet with the machine readings and the row that holds the column names. Rows above it are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Sheet</Label>
+            <Select value={String(sheetIndex)} onValueChange={(value) => onSheetChange(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheets.map((sheet, index) => (
+                  <SelectItem key={sheet.path} value={String(index)}>{sheet.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Header row</Label>
+            <Select
+              value={String(headerRow)}
+              onValueChange={(value) => onHeaderRowChange(Number(value))}
+              disabled={headerChoices.length === 0}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {headerChoices.map(({ row, label }) => (
+                  <SelectItem key={row} value={String(row)}>Row {row}: {label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="border rounded-lg">
+          {isLoading ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">Reading sheet...</p>
+          ) : previewRows.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground text-center">This sheet is empty.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  {Array.from({ length: columnCount }, (_, i) => (
+                    <TableHead key={i} />
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewRows.map((cells, index) => {
+                  const row = index + 1;
+                  return (
+                    <TableRow
+                      key={row}
+                      className={row === headerRow ? 'bg-primary/10 font-semibold' : row < headerRow ? 'opacity-40' : undefined}
+                    >
+                      <TableCell className="text-muted-foreground">{row}</TableCell>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <TableCell key={i} className="font-mono">{cells[i] ?? ''}</TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 justify-end">
+          <Button variant="outline" onClick={onCancel}>
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={isLoading || rows.length <= headerRow}>
+            <ArrowRight className="w-4 h-4 mr-2" />
+            Next: Map Columns
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+import { SAMPLE_BYTES } from './formatDetection';
+import { ZipArchive, ZipEntry, inflateZipEntry, isGzip, readZipEntryData } from './zip';
+
+// Data files inside an upload. A plain file is one source; a .gz file is one
+// compressed source; a zip archive holds one source per data file. Sources are
+// plain data, so they can be posted to the import worker.
+export type UploadSource =
+  | { kind: 'file'; name: string; file: Blob }
+  | { kind: 'gzip'; name: string; file: Blob }
+  | { kind: 'zip'; name: string; archive: Blob; entry: ZipEntry };
+
+// Files in an archive that can hold machine readings
+const DATA_FILE_PATTERN = /\.(csv|tsv|txt|json|ndjson|jsonl)$/i;
+
+// One byte past the detection sample tells whether the data goes on
+const SAMPLE_LIMIT = SAMPLE_BYTES + 1;
+
+// Folders and files that archiving tools add alongside the real content
+function isArchiveClutter(name: string): boolean {
+  return name.endsWith('/') || name.startsWith('__MACOSX/') || name.split('/').some(part => part.startsWith('.'));
+}
+
+// Size of the bytes read from the upload, which is what progress is measured in
+export function sourceSize(source: UploadSource): number {
+  return source.kind === 'zip' ? source.entry.compressedSize : source.file.size;
+}
+
+// A single uploaded file, gzip-compressed or not. `sample` is the start of the file.
+export function singleSource(file: File, sample: Uint8Array): UploadSource {
+  return isGzip(sample)
+    ? { kind: 'gzip', name: file.name.replace(/\.gz$/i, ''), file }
+    : { kind: 'file', name: file.name, file };
+}
+
+// Every data file in a zip archive, in name order
+export function zipSources(file: Blob, archive: ZipArchive): UploadSource[] {
+  const sources: UploadSource[] = archive.entries
+    .filter(entry => !isArchiveClutter(entry.name) && DATA_FILE_PATTERN.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(entry => ({ kind: 'zip', name: entry.name, archive: file, entry }));
+
+  if (sources.length === 0) {
+    throw new Error('The archive does not contain any CSV, text or JSON files');
+  }
+  return sources;
+}
+
+// Decompressed contents of a source. `onBytes` is called with the number of
+// upload bytes consumed, before decompression, so progress matches the file size.
+export async function openSource(
+  source: UploadSource,
+  onBytes?: (count: number) => void
+): Promise<ReadableStream<Uint8Array>> {
+  const counter = new TransformStream<Uint8Array>({
+    transform(chunk, controller) {
+      onBytes?.(chunk.length);
+      controller.enqueue(chunk);
+    }
+  });
+
+  switch (source.kind) {
+    case 'file':
+      return source.file.stream().pipeThrough(counter);
+    case 'gzip':
+      return source.file.stream().pipeThrough(counter).pipeThrough(new DecompressionStream('gzip'));
+    case 'zip':
+      return inflateZipEntry((await readZipEntryData(source.archive, source.entry)).pipeThrough(counter), source.entry);
+  }
+}
+
+// The decompressed start of a source, for format detection and previews
+export async function readSourceSample(source: UploadSource): Promise<Uint8Array> {
+  const reader = (await openSource(source)).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (length < SAMPLE_LIMIT) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+  }
+  reader.cancel();
+
+  const sample = new Uint8Array(Math.min(length, SAMPLE_LIMIT));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, sample.length - offset);
+    sample.set(part, offset);
+    offset += part.length;
+  }
+  return sample;
+}
@@ -0,0 +1,98 @@
+import type { MachineData } from '../App';
+
+// Asset metadata: where a machine stands, what it is and how much depends on
+// it. Uploads may carry it in optional columns; it is remembered per machine
+// ID so later uploads of readings alone still show it.
+
+export type AssetField = 'site' | 'line' | 'model' | 'install_date' | 'criticality';
+
+export type Criticality = 'High' | 'Medium' | 'Low';
+
+export interface AssetInfo {
+  site?: string;
+  line?: string;
+  model?: string;
+  // Calendar date as YYYY-MM-DD
+  install_date?: string;
+  criticality?: Criticality;
+}
+
+// Asset record of every machine seen so far, by machine ID
+export type AssetRegistry = Record<string, AssetInfo>;
+
+export const ASSET_FIELDS: AssetField[] = ['site', 'line', 'model', 'install_date', 'criticality'];
+
+export const ASSET_LABELS: Record<AssetField, string> = {
+  site: 'Site',
+  line: 'Line',
+  model: 'Model',
+  install_date: 'Install Date',
+  criticality: 'Criticality'
+};
+
+export const CRITICALITY_LEVELS: Criticality[] = ['High', 'Medium', 'Low'];
+
+const ASSETS_STORAGE_KEY = 'predictive-maintenance.assets';
+
+// Words and ABC-analysis classes used for criticality in maintenance systems.
+// Numbered ranks count 1 as the most critical.
+const CRITICALITY_ALIASES: Record<string, Criticality> = {
+  high: 'High', h: 'High', critical: 'High', a: 'High', '1': 'High',
+  medium: 'Medium', med: 'Medium', m: 'Medium', b: 'Medium', '2': 'Medium',
+  low: 'Low', l: 'Low', c: 'Low', '3': 'Low'
+};
+
+export function parseCriticality(value: string): Criticality | undefined {
+  return CRITICALITY_ALIASES[value.trim().toLowerCase()];
+}
+
+// Later values win, but an empty value never clears a known one
+export function mergeAssetInfo(base: AssetInfo | undefined, update: AssetInfo | undefined): AssetInfo | undefined {
+  if (!update) return base;
+  const merged: AssetInfo = { ...base };
+  for (const field of ASSET_FIELDS) {
+    const value = update[field];
+    if (value !== undefined && value !== '') (merged as Record<AssetField, string>)[field] = value;
+  }
+  return merged;
+}
+
+export function loadAssetRegistry(): AssetRegistry {
+  try {
+    const stored = localStorage.getItem(ASSETS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// Adds the metadata of newly imported machines to the registry and stores it
+export function rememberAssets(registry: AssetRegistry, machines: MachineData[]): AssetRegistry {
+  const updated = { ...registry };
+  let changed = false;
+  for (const machine of machines) {
+    if (!machine.asset) continue;
+    updated[machine.machine_id] = mergeAssetInfo(updated[machine.machine_id], machine.asset)!;
+    changed = true;
+  }
+  if (!changed) return registry;
+
+  try {
+    localStorage.setItem(ASSETS_STORAGE_KEY, JSON.stringify(updated));
+  } catch {
+    // Metadata is kept for this session only when storage is unavailable
+  }
+  return updated;
+}
+
+export function applyAssets(machines: MachineData[], registry: AssetRegistry): MachineData[] {
+  return machines.map(machine => {
+    const asset = registry[machine.machine_id];
+    return asset && asset !== machine.asset ? { ...machine, asset } : machine;
+  });
+}
+
+// Value of an asset field as shown and searched
+export function assetText(asset: AssetInfo | undefined, field: AssetField): string {
+  return asset?.[field] ?? '';
+}
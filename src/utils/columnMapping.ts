@@ -0,0 +1,232 @@
+import type { UnitSelection } from './units';
+import { ASSET_FIELDS, ASSET_LABELS, AssetField } from './assets';
+import { adHocChannelKey, isRegisteredChannel, registeredChannelFor } from './sensors';
+
+// Maps source column headers onto MachineData fields. Mappings can be saved as
+// named profiles, keyed by the set of headers they were made for, so the next
+// file from the same source is mapped without asking again.
+
+export type MappableField = 'machine_id' | 'temp' | 'vibration' | 'runtime' | 'timestamp' | AssetField;
+
+// Extra sensor columns map to a channel key, e.g. "sensor:pressure"
+export type SensorTarget = `sensor:${string}`;
+export type MappingTarget = MappableField | SensorTarget;
+
+// Source header -> target field, or null to ignore the column
+export type ColumnMapping = Record<string, MappingTarget | null>;
+
+export interface MappingProfile {
+  name: string;
+  signature: string;
+  mapping: ColumnMapping;
+  // Units the source writes its values in, when they differ from canonical
+  units?: UnitSelection;
+  updatedAt: number;
+}
+
+export const MAPPABLE_FIELDS: MappableField[] = ['machine_id', 'temp', 'vibration', 'runtime', 'timestamp', ...ASSET_FIELDS];
+export const REQUIRED_FIELDS: MappableField[] = ['machine_id', 'temp', 'vibration', 'runtime'];
+
+export const FIELD_LABELS: Record<MappableField, string> = {
+  machine_id: 'Machine ID',
+  temp: 'Temperature',
+  vibration: 'Vibration',
+  runtime: 'Runtime',
+  timestamp: 'Timestamp',
+  ...ASSET_LABELS
+};
+
+const PROFILES_STORAGE_KEY = 'predictive-maintenance.mapping-profiles';
+
+// Patterns for headers commonly seen in historian and SCADA exports
+const FIELD_PATTERNS: [MappableField, RegExp][] = [
+  ['machine_id', /^(machine|asset|equipment|device|unit)(_?id|_?name|_?tag)?$|^(id|tag)$/],
+  ['temp', /temp/],
+  ['vibration', /^vib|vibration/],
+  ['runtime', /runtime|run_?hours|operating_?hours|hours_?run|^hours$/],
+  ['timestamp', /^(timestamp|time|date|datetime|ts|recorded_?at|reading_?time)$/],
+  ['site', /^(site|plant|facility|location)(_?name|_?id)?$/],
+  ['line', /^(production_?|process_?)?line(_?name|_?id|_?no)?$|^(area|cell)$/],
+  ['model', /^(equipment_?|asset_?|machine_?)?model(_?name|_?no|_?number)?$/],
+  ['install_date', /^(install(ed|ation)?|commission(ed|ing)?)(_?date|_?on)?$/],
+  ['criticality', /^(criticality|critical_?(class|rank|level)|abc_?class|asset_?class)$/]
+];
+
+const SENSOR_PREFIX = 'sensor:';
+
+export function sensorTarget(key: string): SensorTarget {
+  return `${SENSOR_PREFIX}${key}`;
+}
+
+// Channel key of a sensor target, or undefined for the core fields
+export function sensorKey(target: string | null): string | undefined {
+  return target?.startsWith(SENSOR_PREFIX) ? target.slice(SENSOR_PREFIX.length) : undefined;
+}
+
+function isNumericSample(value: string): boolean {
+  return value.trim() !== '' && isFinite(Number(value.trim().replace(',', '.')));
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+// Header order does not matter because mappings are keyed by name
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).sort().join('|');
+}
+
+// JSON field paths are also matched on their last segment, so
+// "meta.timestamp" is recognized like "timestamp"
+function nameCandidates(header: string): string[] {
+  const normalized = normalizeHeader(header);
+  const leaf = normalizeHeader(header.split('.').pop() ?? '');
+  return leaf && leaf !== normalized ? [normalized, leaf] : [normalized];
+}
+
+// Columns that match no field become sensor channels when their sample
+// values are numbers. Without samples only registered channels are suggested.
+export function suggestMapping(headers: string[], sampleRows: string[][] = []): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<MappingTarget>();
+
+  // Exact names first, so "temp" wins over "bearing_temp" when both exist
+  headers.forEach(header => {
+    const exact = nameCandidates(header).find(
+      (name): name is MappableField => MAPPABLE_FIELDS.includes(name as MappableField) && !taken.has(name as MappableField)
+    );
+    if (exact) {
+      mapping[header] = exact;
+      taken.add(exact);
+    }
+  });
+
+  headers.forEach(header => {
+    if (header in mapping) return;
+    const names = nameCandidates(header);
+    const match = FIELD_PATTERNS.find(([field, pattern]) => !taken.has(field) && names.some(name => pattern.test(name)));
+    mapping[header] = match ? match[0] : null;
+    if (match) taken.add(match[0]);
+  });
+
+  headers.forEach((header, index) => {
+    if (mapping[header] !== null) return;
+    const names = nameCandidates(header);
+    const registered = names.map(registeredChannelFor).find(channel => channel !== undefined);
+    let key = registered && !taken.has(sensorTarget(registered.key)) ? registered.key : undefined;
+    if (!key) {
+      const values = sampleRows.map(row => row[index] ?? '').filter(value => value.trim() !== '');
+      const adHoc = adHocChannelKey(names[0]);
+      // Registered keys are left to their own columns so values are not mixed up
+      if (adHoc && !isRegisteredChannel(adHoc) && values.length > 0 && values.every(isNumericSample)) key = adHoc;
+    }
+    if (!key || taken.has(sensorTarget(key))) return;
+    mapping[header] = sensorTarget(key);
+    taken.add(sensorTarget(key));
+  });
+
+  return mapping;
+}
+
+export function mappingProblems(mapping: ColumnMapping): string[] {
+  const problems: string[] = [];
+  const assigned = Object.values(mapping).filter((field): field is MappingTarget => field !== null);
+
+  const missing = REQUIRED_FIELDS.filter(field => !assigned.includes(field));
+  if (missing.length > 0) {
+    problems.push(`Missing required columns: ${missing.join(', ')}`);
+  }
+
+  const duplicates = Array.from(new Set(assigned)).filter(field => assigned.filter(f => f === field).length > 1);
+  if (duplicates.length > 0) {
+    problems.push(`Mapped more than once: ${duplicates.join(', ')}`);
+  }
+
+  return problems;
+}
+
+// Column index for every mapped field
+export function resolveColumns(headers: string[], mapping: ColumnMapping): Partial<Record<MappableField, number>> {
+  const columns: Partial<Record<MappableField, number>> = {};
+  headers.forEach((header, index) => {
+    const field = mapping[header];
+    if (field && sensorKey(field) === undefined && columns[field as MappableField] === undefined) {
+      columns[field as MappableField] = index;
+    }
+  });
+  return columns;
+}
+
+// Column index for every mapped sensor channel, by channel key
+export function resolveSensorColumns(headers: string[], mapping: ColumnMapping): Record<string, number> {
+  const columns: Record<string, number> = {};
+  headers.forEach((header, index) => {
+    const key = sensorKey(mapping[header] ?? null);
+    if (key !== undefined && columns[key] === undefined) columns[key] = index;
+  });
+  return columns;
+}
+
+// Profiles saved while storage is unavailable, kept for this session in its place
+let sessionProfiles: MappingProfile[] | null = null;
+
+export function loadMappingProfiles(): MappingProfile[] {
+  if (sessionProfiles) return sessionProfiles;
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeMappingProfiles(profiles: MappingProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    sessionProfiles = null;
+  } catch {
+    sessionProfiles = profiles;
+  }
+}
+
+// Saving under an existing name replaces that profile
+export function saveMappingProfile(
+  name: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  units?: UnitSelection
+): MappingProfile[] {
+  const profile: MappingProfile = {
+    name,
+    signature: headerSignature(headers),
+    mapping,
+    units,
+    updatedAt: Date.now()
+  };
+  const profiles = [...loadMappingProfiles().filter(p => p.name !== name), profile];
+  storeMappingProfiles(profiles);
+  return profiles;
+}
+
+export function deleteMappingProfile(name: string): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter(p => p.name !== name);
+  storeMappingProfiles(profiles);
+  return profiles;
+}
+
+export function findProfileForHeaders(profiles: MappingProfile[], headers: string[]): MappingProfile | undefined {
+  const signature = headerSignature(headers);
+  return profiles
+    .filter(p => p.signature === signature)
+    .sort((a, b) => b.updatedAt - a.updatedAt)[0];
+}
+
+// Applies a profile saved for a different header set as far as the names overlap
+export function applyProfile(profile: MappingProfile, headers: string[]): ColumnMapping {
+  const byNormalized = new Map(Object.entries(profile.mapping).map(([header, field]) => [normalizeHeader(header), field]));
+  const mapping: ColumnMapping = {};
+  headers.forEach(header => {
+    mapping[header] = byNormalized.get(normalizeHeader(header)) ?? null;
+  });
+  return mapping;
+}
@@ -0,0 +1,33 @@
+// 64-bit content fingerprint, computed incrementally so uploads can be hashed
+// chunk by chunk while they are parsed. It tells identical uploads apart from
+// changed ones; it is not meant to resist deliberate collisions.
+
+export class ContentHasher {
+  private h1 = 0xdeadbeef;
+  private h2 = 0x41c6ce57;
+
+  update(bytes: Uint8Array): this {
+    let h1 = this.h1;
+    let h2 = this.h2;
+    for (let i = 0; i < bytes.length; i++) {
+      h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+      h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+    }
+    this.h1 = h1;
+    this.h2 = h2;
+    return this;
+  }
+
+  updateText(text: string): this {
+    return this.update(new TextEncoder().encode(text));
+  }
+
+  // Hex digest; the hasher can keep taking input afterwards
+  digest(): string {
+    let h1 = Math.imul(this.h1 ^ (this.h1 >>> 16), 2246822507) ^ Math.imul(this.h2 ^ (this.h2 >>> 13), 3266489909);
+    let h2 = Math.imul(this.h2 ^ (this.h2 >>> 16), 2246822507) ^ Math.imul(this.h1 ^ (this.h1 >>> 13), 3266489909);
+    h1 >>>= 0;
+    h2 >>>= 0;
+    return h2.toString(16).padStart(8, '0') + h1.toString(16).padStart(8, '0');
+  }
+}
@@ -0,0 +1,186 @@
+// RFC 4180 CSV tokenizer. Handles quoted fields, escaped quotes (""), delimiters
+// and line breaks inside quotes, CRLF/LF/CR line endings and a leading UTF-8 BOM.
+// Input can be pushed in chunks so large files never need to be split into lines.
+
+export class CsvParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'CsvParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface CsvRecord {
+  fields: string[];
+  // 1-based line on which the record starts
+  line: number;
+}
+
+export interface CsvOptions {
+  delimiter?: string;
+}
+
+type TokenizerState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+export class CsvTokenizer {
+  private readonly delimiter: string;
+  private state: TokenizerState = 'fieldStart';
+  private field = '';
+  private fields: string[] = [];
+  private records: CsvRecord[] = [];
+  private line = 1;
+  private column = 0;
+  private recordLine = 1;
+  private quoteLine = 0;
+  private quoteColumn = 0;
+  private afterCarriageReturn = false;
+  private started = false;
+
+  constructor(options: CsvOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    if (this.delimiter.length !== 1 || this.delimiter === '"' || this.delimiter === '\n' || this.delimiter === '\r') {
+      throw new Error(`Unsupported CSV delimiter: ${JSON.stringify(this.delimiter)}`);
+    }
+  }
+
+  // Feeds the next chunk of text and returns the records completed by it.
+  push(chunk: string): CsvRecord[] {
+    let i = 0;
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      // Second half of a CRLF pair: the line break was already handled on the CR
+      if (ch === '\n' && this.afterCarriageReturn) {
+        this.afterCarriageReturn = false;
+        if (this.state === 'quoted') this.field += ch;
+        continue;
+      }
+      this.afterCarriageReturn = ch === '\r';
+
+      const isLineBreak = ch === '\n' || ch === '\r';
+      const line = this.line;
+      const column = this.column + 1;
+      if (isLineBreak) {
+        this.line++;
+        this.column = 0;
+      } else {
+        this.column++;
+      }
+
+      switch (this.state) {
+        case 'quoted':
+          if (ch === '"') {
+            this.state = 'quoteInQuoted';
+          } else {
+            this.field += ch;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (ch === '"') {
+            this.field += '"';
+            this.state = 'quoted';
+          } else if (ch === this.delimiter) {
+            this.endField();
+          } else if (isLineBreak) {
+            this.endRecord();
+          } else {
+            throw new CsvParseError(`Unexpected character "${ch}" after closing quote`, line, column);
+          }
+          break;
+
+        case 'fieldStart':
+          if (ch === '"') {
+            this.state = 'quoted';
+            this.quoteLine = line;
+            this.quoteColumn = column;
+            break;
+          }
+          this.state = 'unquoted';
+          this.consumeUnquoted(ch, isLineBreak);
+          break;
+
+        case 'unquoted':
+          this.consumeUnquoted(ch, isLineBreak);
+          break;
+      }
+    }
+
+    return this.takeRecords();
+  }
+
+  // Signals end of input and returns any record left without a trailing line break.
+  finish(): CsvRecord[] {
+    if (this.state === 'quoted') {
+      throw new CsvParseError('Unterminated quoted field', this.quoteLine, this.quoteColumn);
+    }
+    if (this.fields.length > 0 || this.field !== '' || this.state === 'quoteInQuoted') {
+      this.endRecord();
+    }
+    return this.takeRecords();
+  }
+
+  private consumeUnquoted(ch: string, isLineBreak: boolean) {
+    if (ch === this.delimiter) {
+      this.endField();
+    } else if (isLineBreak) {
+      this.endRecord();
+    } else {
+      this.field += ch;
+    }
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'fieldStart';
+  }
+
+  private endRecord() {
+    const wasQuoted = this.state === 'quoteInQuoted';
+    this.endField();
+    // Blank lines carry no data; a lone quoted empty string ("") still counts as a record
+    if (this.fields.length > 1 || this.fields[0] !== '' || wasQuoted) {
+      this.records.push({ fields: this.fields, line: this.recordLine });
+    }
+    this.fields = [];
+    this.recordLine = this.line;
+  }
+
+  private takeRecords(): CsvRecord[] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+}
+
+export function parseCsv(text: string, options: CsvOptions = {}): CsvRecord[] {
+  const tokenizer = new CsvTokenizer(options);
+  return [...tokenizer.push(text), ...tokenizer.finish()];
+}
+
+// Drops empty columns at the end of a header row, as left behind by spreadsheet
+// exports with trailing delimiters, and returns the number of columns that remain.
+export function trimTrailingEmptyColumns(header: string[]): number {
+  let width = header.length;
+  while (width > 0 && header[width - 1].trim() === '') width--;
+  return width;
+}
+
+// Quotes a field only when it contains the delimiter, a quote or a line break
+export function formatCsvField(value: string, delimiter = ','): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsvRow(fields: string[], delimiter = ','): string {
+  return fields.map(field => formatCsvField(field, delimiter)).join(delimiter);
+}
@@ -0,0 +1,134 @@
+import type { MachineSeries, SensorReading } from './timeSeries';
+import { CORE_CHANNELS, SENSOR_CHANNELS, isCoreChannel } from './sensors';
+
+// Data-quality stage between parsing and scoring. Validation has already
+// dropped rows that cannot be read or are physically impossible; this stage
+// flags readings that can be read but should not be trusted, and rates each
+// reading and machine so scores resting on bad data are not shown as certain.
+
+export type QualityFlag = 'out_of_range' | 'duplicate' | 'implausible';
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  out_of_range: 'Outside operating range',
+  duplicate: 'Repeated reading',
+  implausible: 'Statistically implausible'
+};
+
+// How much each flag lowers a reading's quality from 1
+const FLAG_PENALTIES: Record<QualityFlag, number> = {
+  out_of_range: 0.6,
+  implausible: 0.4,
+  duplicate: 0.3
+};
+
+// Machines below this quality are reported as having insufficient data
+export const MIN_DATA_QUALITY = 0.5;
+
+// Robust z-score above which a reading stands out from the machine's own history
+const OUTLIER_Z = 6;
+// Outliers need enough history to judge against
+const MIN_OUTLIER_READINGS = 5;
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+const HOURS_PER_MS = 1 / 3_600_000;
+
+export interface MachineQuality {
+  // 0-1; the lower of the latest reading's quality and the average over all readings
+  score: number;
+  // Number of readings with each flag
+  flags: Partial<Record<QualityFlag, number>>;
+}
+
+export function readingQuality(reading: SensorReading): number {
+  const penalty = (reading.flags ?? []).reduce((sum, flag) => sum + FLAG_PENALTIES[flag], 0);
+  return Math.max(0, 1 - penalty);
+}
+
+function channelValue(reading: SensorReading, key: string): number | undefined {
+  return isCoreChannel(key) ? reading[key] : reading.sensors?.[key];
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Indexes of readings far from the machine's typical value for a channel
+function outliers(readings: SensorReading[], key: string): number[] {
+  const present = readings
+    .map((reading, index) => ({ index, value: channelValue(reading, key) }))
+    .filter((entry): entry is { index: number; value: number } => entry.value !== undefined);
+  if (present.length < MIN_OUTLIER_READINGS) return [];
+
+  const center = median(present.map(entry => entry.value));
+  const spread = median(present.map(entry => Math.abs(entry.value - center))) * MAD_SCALE;
+  if (spread === 0) return [];
+  return present.filter(entry => Math.abs(entry.value - center) / spread > OUTLIER_Z).map(entry => entry.index);
+}
+
+// Same core values and the same extra-sensor values
+export function sameValues(a: SensorReading, b: SensorReading): boolean {
+  if (a.temp !== b.temp || a.vibration !== b.vibration || a.runtime !== b.runtime) return false;
+  const keys = new Set([...Object.keys(a.sensors ?? {}), ...Object.keys(b.sensors ?? {})]);
+  return Array.from(keys).every(key => a.sensors?.[key] === b.sensors?.[key]);
+}
+
+function flagReadings(series: MachineSeries): SensorReading[] {
+  const { readings, asset } = series;
+  const flags = readings.map(() => new Set<QualityFlag>());
+  const installedAt = asset?.install_date ? Date.parse(asset.install_date) : NaN;
+
+  readings.forEach((reading, index) => {
+    for (const channel of SENSOR_CHANNELS) {
+      const value = channelValue(reading, channel.key);
+      const { min, max } = channel.plausible ?? {};
+      if (value !== undefined && ((min !== undefined && value < min) || (max !== undefined && value > max))) {
+        flags[index].add('out_of_range');
+      }
+    }
+
+    // A machine cannot have run longer than it has been installed. Readings
+    // without a time are not checked, so flags never depend on the clock.
+    if (!isNaN(installedAt) && reading.timestamp !== undefined) {
+      const hoursInstalled = (reading.timestamp - installedAt) * HOURS_PER_MS;
+      if (reading.runtime > Math.max(hoursInstalled, 0)) flags[index].add('out_of_range');
+    }
+
+    const previous = readings[index - 1];
+    if (previous) {
+      // Identical values at a new time usually mean a stuck sensor or a re-sent record
+      if (sameValues(previous, reading)) flags[index].add('duplicate');
+      // Runtime counters only go up between readings in time order
+      if (reading.timestamp !== undefined && previous.timestamp !== undefined && reading.runtime < previous.runtime) {
+        flags[index].add('implausible');
+      }
+    }
+  });
+
+  for (const key of [...CORE_CHANNELS, ...Object.keys(Object.assign({}, ...readings.map(r => r.sensors ?? {})))]) {
+    for (const index of outliers(readings, key)) flags[index].add('implausible');
+  }
+
+  return readings.map((reading, index) =>
+    flags[index].size > 0 ? { ...reading, flags: Array.from(flags[index]) } : reading
+  );
+}
+
+// Flags the readings of every machine. Readings without problems are passed
+// through unchanged.
+export function assessDataQuality(series: MachineSeries[]): MachineSeries[] {
+  return series.map(machine => ({ ...machine, readings: flagReadings(machine) }));
+}
+
+export function machineQuality(readings: SensorReading[]): MachineQuality {
+  const flags: Partial<Record<QualityFlag, number>> = {};
+  let total = 0;
+  for (const reading of readings) {
+    total += readingQuality(reading);
+    reading.flags?.forEach(flag => { flags[flag] = (flags[flag] ?? 0) + 1; });
+  }
+  const latest = readingQuality(readings[readings.length - 1]);
+  return { score: Math.min(latest, total / readings.length), flags };
+}
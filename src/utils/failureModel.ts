@@ -0,0 +1,316 @@
+import { ColumnMapping, sensorKey, suggestMapping } from './columnMapping';
+import { createRng } from './fleetGenerator';
+import { createTokenizer, detectImportOptions, parseDecimal } from './formatDetection';
+import { ContentHasher } from './contentHash';
+import { CANONICAL_UNITS, SensorUnit, toCanonical, unitsFromHeaders } from './units';
+
+// A failure prediction model trained in the browser from labelled history:
+// readings with a failed_within_30d column saying whether the machine failed
+// within 30 days of the reading. The model is a logistic regression over the
+// chosen sensor channels, fitted by gradient descent on standardized values,
+// and can replace the threshold rules as the scoring engine.
+
+export const LABEL_COLUMN = 'failed_within_30d';
+
+// Version of the training and scoring code; results record it together with a
+// fingerprint of the model that scored them (see modelEngineVersion)
+export const FAILURE_MODEL_ENGINE_VERSION = 'logistic-regression@1.1.0';
+
+// Failure probabilities at which each level starts
+export const FAILURE_PROBABILITY_CUTOFFS = { at_risk: 0.3, critical: 0.6 };
+
+export class TrainingDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrainingDataError';
+  }
+}
+
+export interface TrainingRow {
+  machine_id: string;
+  // Feature values by channel key; a missing value is imputed with the training mean
+  values: Record<string, number>;
+  label: 0 | 1;
+}
+
+export interface TrainingSet {
+  // Numeric channels found in the file, in column order
+  features: string[];
+  rows: TrainingRow[];
+}
+
+export interface TrainingOptions {
+  features: string[];
+  // 0-1; share of machines held out for validation. Machines are never split
+  // across both sides, so validation shows how the model does on unseen machines.
+  validationShare: number;
+  epochs: number;
+  learningRate: number;
+  // Penalty on large weights, against overfitting
+  l2: number;
+  seed: number;
+}
+
+export const DEFAULT_TRAINING_OPTIONS: Omit<TrainingOptions, 'features'> = {
+  validationShare: 0.2,
+  epochs: 500,
+  learningRate: 0.5,
+  l2: 0.001,
+  seed: 1
+};
+
+export interface ModelMetrics {
+  rows: number;
+  failures: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  // Area under the ROC curve; 0.5 is no better than chance. NaN with a single class.
+  auc: number;
+  logLoss: number;
+}
+
+export interface FailureModel {
+  name: string;
+  trainedAt: number;
+  features: string[];
+  // Standardization learned from the training rows
+  means: number[];
+  scales: number[];
+  weights: number[];
+  bias: number;
+  metrics: { train: ModelMetrics; validation?: ModelMetrics };
+}
+
+// What predictions need of a model
+type Coefficients = Pick<FailureModel, 'features' | 'means' | 'scales' | 'weights' | 'bias'>;
+
+const MODEL_STORAGE_KEY = 'predictive-maintenance.failure-model';
+
+// Predictions at or above this count as a failure for accuracy, precision and recall
+const DECISION_THRESHOLD = 0.5;
+
+const TRUE_LABELS = new Set(['1', 'true', 'yes', 'y']);
+const FALSE_LABELS = new Set(['0', 'false', 'no', 'n']);
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+// Reads a labelled file of delimited text. Encoding, delimiter, decimal mark,
+// columns and units are recognized as on upload (see formatDetection.ts,
+// columnMapping.ts and units.ts), so the channel keys and values match those
+// of scored machines.
+export function parseTrainingData(bytes: Uint8Array): TrainingSet {
+  const { format, encoding, delimiter, decimalSeparator } = detectImportOptions(bytes);
+  if (format !== 'delimited') throw new TrainingDataError('Training data must be delimited text such as CSV.');
+  const tokenizer = createTokenizer(delimiter);
+  const text = new TextDecoder(encoding).decode(bytes);
+  const [header, ...records] = [...tokenizer.push(text), ...tokenizer.finish()];
+  if (!header) throw new TrainingDataError('The file is empty.');
+
+  const headers = header.fields;
+  const labelIndex = headers.findIndex(h => normalizeHeader(h) === LABEL_COLUMN);
+  if (labelIndex < 0) throw new TrainingDataError(`The file has no ${LABEL_COLUMN} column.`);
+
+  const others = headers.filter((_, index) => index !== labelIndex);
+  const samples = records.slice(0, 50).map(record => record.fields.filter((_, index) => index !== labelIndex));
+  const mapping: ColumnMapping = suggestMapping(others, samples);
+  const idHeader = others.find(h => mapping[h] === 'machine_id');
+  if (!idHeader) throw new TrainingDataError('The file has no machine ID column.');
+
+  const units = { ...CANONICAL_UNITS, ...unitsFromHeaders(others, mapping) };
+  // Core channels carry the unit declared by their header; extra sensors are kept as read
+  const columns: { index: number; key: string; unit?: SensorUnit }[] = [];
+  headers.forEach((h, index) => {
+    const target = index === labelIndex ? null : mapping[h];
+    if (target === 'temp' || target === 'vibration' || target === 'runtime') {
+      columns.push({ index, key: target, unit: units[target] });
+      return;
+    }
+    const key = sensorKey(target ?? null);
+    if (key) columns.push({ index, key });
+  });
+  if (columns.length === 0) throw new TrainingDataError('The file has no sensor columns to learn from.');
+
+  const idIndex = headers.indexOf(idHeader);
+  const rows: TrainingRow[] = [];
+  for (const record of records) {
+    const machine_id = record.fields[idIndex]?.trim();
+    const label = record.fields[labelIndex]?.trim().toLowerCase() ?? '';
+    if (!machine_id || !(TRUE_LABELS.has(label) || FALSE_LABELS.has(label))) continue;
+    const values: Record<string, number> = {};
+    for (const { index, key, unit } of columns) {
+      const value = parseDecimal(record.fields[index] ?? '', decimalSeparator);
+      if (isFinite(value)) values[key] = unit ? toCanonical(value, unit) : value;
+    }
+    rows.push({ machine_id, values, label: TRUE_LABELS.has(label) ? 1 : 0 });
+  }
+  if (rows.length === 0) throw new TrainingDataError(`No row has a machine ID and a ${LABEL_COLUMN} of 0 or 1.`);
+
+  return { features: columns.map(column => column.key), rows };
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+// Standardized feature values, with missing ones at the mean
+function standardize(model: Pick<FailureModel, 'features' | 'means' | 'scales'>, values: Record<string, number | undefined>): number[] {
+  return model.features.map((key, i) => {
+    const value = values[key];
+    return value === undefined || !isFinite(value) ? 0 : (value - model.means[i]) / model.scales[i];
+  });
+}
+
+// Probability that the machine fails within 30 days of these readings
+export function predictFailure(model: Coefficients, values: Record<string, number | undefined>): number {
+  const x = standardize(model, values);
+  return sigmoid(x.reduce((z, xi, i) => z + xi * model.weights[i], model.bias));
+}
+
+// How much each feature moves the log-odds of failure away from an average machine
+export function featureContributions(model: Coefficients, values: Record<string, number | undefined>): number[] {
+  return standardize(model, values).map((xi, i) => xi * model.weights[i]);
+}
+
+// Rank-based AUC (Mann-Whitney U), ties counting half
+function areaUnderCurve(predictions: number[], labels: number[]): number {
+  const order = predictions.map((p, i) => i).sort((a, b) => predictions[a] - predictions[b]);
+  const ranks = new Array<number>(order.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && predictions[order[j + 1]] === predictions[order[i]]) j++;
+    for (let k = i; k <= j; k++) ranks[order[k]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  const positives = labels.filter(label => label === 1).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return NaN;
+  const rankSum = labels.reduce((sum, label, i) => sum + (label === 1 ? ranks[i] : 0), 0);
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function evaluateModel(model: Coefficients, rows: TrainingRow[]): ModelMetrics {
+  const predictions = rows.map(row => predictFailure(model, row.values));
+  const labels = rows.map(row => row.label);
+  let truePositives = 0;
+  let falsePositives = 0;
+  let correct = 0;
+  let logLoss = 0;
+  predictions.forEach((p, i) => {
+    const predicted = p >= DECISION_THRESHOLD ? 1 : 0;
+    if (predicted === labels[i]) correct++;
+    if (predicted === 1) labels[i] === 1 ? truePositives++ : falsePositives++;
+    const clipped = Math.min(Math.max(p, 1e-7), 1 - 1e-7);
+    logLoss -= labels[i] === 1 ? Math.log(clipped) : Math.log(1 - clipped);
+  });
+  const failures = labels.filter(label => label === 1).length;
+  return {
+    rows: rows.length,
+    failures,
+    accuracy: rows.length > 0 ? correct / rows.length : NaN,
+    precision: truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : NaN,
+    recall: failures > 0 ? truePositives / failures : NaN,
+    auc: areaUnderCurve(predictions, labels),
+    logLoss: rows.length > 0 ? logLoss / rows.length : NaN
+  };
+}
+
+// Holds out a seeded random share of machines for validation
+function splitByMachine(rows: TrainingRow[], share: number, seed: number): { train: TrainingRow[]; validation: TrainingRow[] } {
+  const machines = Array.from(new Set(rows.map(row => row.machine_id))).sort();
+  const random = createRng(seed);
+  for (let i = machines.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [machines[i], machines[j]] = [machines[j], machines[i]];
+  }
+  const heldOut = new Set(machines.slice(0, Math.min(Math.round(machines.length * share), machines.length - 1)));
+  return {
+    train: rows.filter(row => !heldOut.has(row.machine_id)),
+    validation: rows.filter(row => heldOut.has(row.machine_id))
+  };
+}
+
+// Slow on large files, so it runs in the import worker; onEpoch follows its progress
+export function trainFailureModel(
+  set: TrainingSet,
+  options: TrainingOptions,
+  name: string,
+  onEpoch?: (completed: number) => void
+): FailureModel {
+  const features = set.features.filter(key => options.features.includes(key));
+  if (features.length === 0) throw new TrainingDataError('Choose at least one feature.');
+  const { train, validation } = splitByMachine(set.rows, options.validationShare, options.seed);
+  const trainFailures = train.filter(row => row.label === 1).length;
+  if (trainFailures === 0 || trainFailures === train.length) {
+    throw new TrainingDataError('The training rows need both failures and non-failures.');
+  }
+
+  const means = features.map(key => {
+    const values = train.map(row => row.values[key]).filter(value => value !== undefined);
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  });
+  const scales = features.map((key, i) => {
+    const values = train.map(row => row.values[key]).filter(value => value !== undefined);
+    const variance = values.reduce((sum, value) => sum + (value - means[i]) ** 2, 0) / Math.max(values.length, 1);
+    return Math.sqrt(variance) || 1;
+  });
+  const scaling = { features, means, scales };
+  let weights = features.map(() => 0);
+  // Starting from the base rate makes early epochs fit the features rather than the imbalance
+  let bias = Math.log(trainFailures / (train.length - trainFailures));
+
+  // Full-batch gradient descent on the mean log loss
+  const x = train.map(row => standardize(scaling, row.values));
+  for (let epoch = 0; epoch < options.epochs; epoch++) {
+    const gradient = features.map(() => 0);
+    let biasGradient = 0;
+    x.forEach((xi, r) => {
+      const error = sigmoid(xi.reduce((z, v, i) => z + v * weights[i], bias)) - train[r].label;
+      xi.forEach((v, i) => { gradient[i] += error * v; });
+      biasGradient += error;
+    });
+    weights = weights.map((w, i) => w - options.learningRate * (gradient[i] / x.length + options.l2 * w));
+    bias -= options.learningRate * (biasGradient / x.length);
+    onEpoch?.(epoch + 1);
+  }
+
+  const fitted: Coefficients = { ...scaling, weights, bias };
+  return {
+    ...fitted,
+    name,
+    trainedAt: Date.now(),
+    metrics: {
+      train: evaluateModel(fitted, train),
+      validation: validation.length > 0 ? evaluateModel(fitted, validation) : undefined
+    }
+  };
+}
+
+// Recorded as engine_version on machines scored by the model, so results of
+// different trained models can be told apart, e.g. "logistic-regression@1.1.0+9c0f…"
+export function modelEngineVersion(model: Coefficients): string {
+  const { features, means, scales, weights, bias } = model;
+  const fingerprint = new ContentHasher().updateText(JSON.stringify([features, means, scales, weights, bias])).digest();
+  return `${FAILURE_MODEL_ENGINE_VERSION}+${fingerprint}`;
+}
+
+export function loadFailureModel(): FailureModel | null {
+  try {
+    const stored = localStorage.getItem(MODEL_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+// null removes the saved model
+export function saveFailureModel(model: FailureModel | null) {
+  try {
+    if (model) localStorage.setItem(MODEL_STORAGE_KEY, JSON.stringify(model));
+    else localStorage.removeItem(MODEL_STORAGE_KEY);
+  } catch {
+    // The model is kept for this session only when storage is unavailable
+  }
+}
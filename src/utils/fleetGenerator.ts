@@ -0,0 +1,176 @@
+import type { RawMachineRow } from './parsers';
+import { formatCsvRow } from './csv';
+
+// Synthetic fleets for trying the import and the dashboard without real
+// data. Generation is seeded, so the same settings always give the same file
+// and a fleet can be shared by its seed.
+
+export type FailureScenario = 'overheating' | 'bearing_wear' | 'imbalance';
+
+export const FAILURE_SCENARIOS: { scenario: FailureScenario; label: string; description: string }[] = [
+  { scenario: 'overheating', label: 'Overheating', description: 'Temperature and current draw climb steadily' },
+  { scenario: 'bearing_wear', label: 'Bearing wear', description: 'Vibration grows faster towards the end of the series' },
+  { scenario: 'imbalance', label: 'Imbalance', description: 'Vibration jumps to a higher level part-way through' }
+];
+
+export interface FleetOptions {
+  size: number;
+  // 0-1; share of machines following one of the selected failure scenarios
+  degradingShare: number;
+  // 0-1; spread of readings around each machine's true state
+  noise: number;
+  // Degrading machines are spread evenly over these; none keeps the whole fleet healthy
+  scenarios: FailureScenario[];
+  // Readings per machine; 1 gives a snapshot without timestamps
+  readings: number;
+  seed: number;
+}
+
+export const DEFAULT_FLEET_OPTIONS: FleetOptions = {
+  size: 25,
+  degradingShare: 0.3,
+  noise: 0.3,
+  scenarios: ['overheating', 'bearing_wear', 'imbalance'],
+  readings: 1,
+  seed: 1
+};
+
+export const MAX_FLEET_SIZE = 5000;
+export const MAX_FLEET_READINGS = 365;
+
+const COLUMNS = ['machine_id', 'timestamp', 'temp', 'vibration', 'runtime', 'rpm', 'motor_current'];
+
+// Series start on a fixed date so output does not depend on when it was made
+const SERIES_START = Date.UTC(2024, 0, 1);
+const READING_INTERVAL_HOURS = 24;
+const MS_PER_HOUR = 3_600_000;
+
+// Standard deviations at full noise
+const NOISE_SD = { temp: 4, vibration: 0.8, rpm: 15, motor_current: 2.5 };
+
+// Mulberry32: small, fast and good enough for test data
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+// Standard normal value by the Box-Muller transform
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+interface MachineProfile {
+  temp: number;
+  vibration: number;
+  rpm: number;
+  motor_current: number;
+  runtime: number;
+  // Hours run per day
+  utilization: number;
+  scenario?: FailureScenario;
+  // 0-1; how far the failure has progressed by the last reading
+  severity: number;
+  // 0-1; point in the series where an imbalance appears
+  onset: number;
+}
+
+// Offsets from the healthy baseline at a point of the series, 0 at the first
+// reading and 1 at the last
+function degradation(profile: MachineProfile, progress: number) {
+  const s = profile.severity;
+  switch (profile.scenario) {
+    case 'overheating':
+      return { temp: 35 * s * progress, vibration: 2.5 * s * progress, motor_current: 20 * s * progress };
+    case 'bearing_wear':
+      return { temp: 15 * s * progress, vibration: 8 * s * progress ** 2, motor_current: 5 * s * progress };
+    case 'imbalance':
+      return { temp: 5 * s, vibration: progress >= profile.onset ? 4 + 4 * s : 0, motor_current: 0 };
+    default:
+      return { temp: 0, vibration: 0, motor_current: 0 };
+  }
+}
+
+export function generateFleet(options: FleetOptions): RawMachineRow[] {
+  const random = createRng(options.seed);
+  const size = Math.min(Math.max(Math.floor(options.size), 1), MAX_FLEET_SIZE);
+  const readings = Math.min(Math.max(Math.floor(options.readings), 1), MAX_FLEET_READINGS);
+  const degrading = options.scenarios.length > 0 ? Math.round(size * Math.min(Math.max(options.degradingShare, 0), 1)) : 0;
+  const idWidth = Math.max(3, String(size).length);
+
+  // Degrading machines are scattered through the fleet rather than listed first
+  const order = Array.from({ length: size }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const scenarioOf = new Map(order.slice(0, degrading).map((index, i) => [index, options.scenarios[i % options.scenarios.length]]));
+
+  const rows: RawMachineRow[] = [];
+  for (let index = 0; index < size; index++) {
+    const machine_id = `MACH${String(index + 1).padStart(idWidth, '0')}`;
+    const profile: MachineProfile = {
+      temp: between(random, 52, 64),
+      vibration: between(random, 1.2, 3.5),
+      rpm: between(random, 1460, 1490),
+      motor_current: between(random, 18, 30),
+      runtime: between(random, 1000, 18000),
+      utilization: between(random, 8, 24),
+      scenario: scenarioOf.get(index),
+      severity: between(random, 0.5, 1),
+      onset: between(random, 0.2, 0.8)
+    };
+
+    for (let i = 0; i < readings; i++) {
+      // A snapshot shows the state at the end of the failure
+      const progress = readings === 1 ? 1 : i / (readings - 1);
+      const offset = degradation(profile, progress);
+      const noise = (sd: number) => gaussian(random) * sd * options.noise;
+
+      rows.push({
+        machine_id,
+        timestamp: readings === 1 ? undefined : SERIES_START + i * READING_INTERVAL_HOURS * MS_PER_HOUR,
+        temp: round(profile.temp + offset.temp + noise(NOISE_SD.temp), 1),
+        vibration: round(Math.max(profile.vibration + offset.vibration + noise(NOISE_SD.vibration), 0), 2),
+        runtime: Math.round(profile.runtime + i * profile.utilization),
+        sensors: {
+          rpm: Math.round(profile.rpm + noise(NOISE_SD.rpm)),
+          motor_current: round(Math.max(profile.motor_current + offset.motor_current + noise(NOISE_SD.motor_current), 0), 1)
+        },
+        line: rows.length + 2
+      });
+    }
+  }
+  return rows;
+}
+
+// CSV in the layout the import reads by default; snapshots leave out the timestamp column
+export function fleetToCsv(rows: RawMachineRow[]): string {
+  const timed = rows.some(row => row.timestamp !== undefined);
+  const columns = timed ? COLUMNS : COLUMNS.filter(column => column !== 'timestamp');
+  const lines = rows.map(row => formatCsvRow(columns.map(column => {
+    switch (column) {
+      case 'machine_id': return row.machine_id;
+      case 'timestamp': return row.timestamp !== undefined ? new Date(row.timestamp).toISOString() : '';
+      case 'temp': return String(row.temp);
+      case 'vibration': return String(row.vibration);
+      case 'runtime': return String(row.runtime);
+      default: return String(row.sensors?.[column] ?? '');
+    }
+  })));
+  return [formatCsvRow(columns), ...lines].join('\n');
+}
@@ -0,0 +1,71 @@
+import type { MachineData } from '../App';
+import type { SensorReading } from './timeSeries';
+import { sameValues } from './dataQuality';
+
+// How an upload is combined with the machines already on the dashboard
+export type MergeMode = 'replace' | 'append' | 'upsert';
+
+export const MERGE_MODES: { mode: MergeMode; label: string; description: string }[] = [
+  { mode: 'replace', label: 'Replace', description: 'Discard the current fleet and show only this upload' },
+  { mode: 'append', label: 'Append', description: 'Add new machines; machines already in the fleet are kept as they are' },
+  { mode: 'upsert', label: 'Update by machine ID', description: 'Add new machines and replace existing ones with the uploaded readings' }
+];
+
+export interface MergeSummary {
+  mode: MergeMode;
+  added: number;
+  updated: number;
+  // Machines kept as they were, including uploaded duplicates skipped by append
+  unchanged: number;
+  // Machines discarded by replace
+  removed: number;
+}
+
+export interface MergeResult {
+  data: MachineData[];
+  summary: MergeSummary;
+}
+
+function sameReadings(a: SensorReading[], b: SensorReading[]): boolean {
+  return a.length === b.length && a.every((reading, i) => reading.timestamp === b[i].timestamp && sameValues(reading, b[i]));
+}
+
+// Combines an upload with the current fleet. Existing machines keep their
+// position and new ones are added after them in upload order.
+export function mergeFleet(current: MachineData[], incoming: MachineData[], mode: MergeMode): MergeResult {
+  if (mode === 'replace') {
+    return {
+      data: incoming,
+      summary: { mode, added: incoming.length, updated: 0, unchanged: 0, removed: current.length }
+    };
+  }
+
+  const uploaded = new Map(incoming.map(machine => [machine.machine_id, machine]));
+  let updated = 0;
+  let unchanged = 0;
+
+  const data = current.map(machine => {
+    const replacement = uploaded.get(machine.machine_id);
+    if (!replacement) {
+      unchanged++;
+      return machine;
+    }
+    uploaded.delete(machine.machine_id);
+    // Identical readings scored by the same engine keep the existing machine
+    if (
+      mode === 'append' ||
+      (machine.engine_version === replacement.engine_version && sameReadings(machine.readings, replacement.readings))
+    ) {
+      unchanged++;
+      return machine;
+    }
+    updated++;
+    return replacement;
+  });
+
+  const added = Array.from(uploaded.values());
+  return {
+    data: [...data, ...added],
+    summary: { mode, added: added.length, updated, unchanged, removed: 0 }
+  };
+}
@@ -0,0 +1,326 @@
+import { CsvRecord, CsvTokenizer } from './csv';
+import { JsonValueSplitter, collectPaths, toFieldRecord } from './json';
+
+// Sniffs how an uploaded file was written: delimited text or JSON, text
+// encoding, field delimiter, decimal mark and whether the first row is a header. Everything here is a
+// best guess from a sample of the file; the upload preview lets users override it.
+
+export type DataFormat = 'delimited' | 'json' | 'ndjson';
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+export type Delimiter = ',' | ';' | '\t' | '|' | 'whitespace';
+export type DecimalSeparator = '.' | ',';
+
+export interface ImportOptions {
+  format: DataFormat;
+  encoding: TextEncoding;
+  delimiter: Delimiter;
+  decimalSeparator: DecimalSeparator;
+  hasHeader: boolean;
+}
+
+export const FORMAT_LABELS: Record<DataFormat, string> = {
+  delimited: 'CSV / delimited text',
+  json: 'JSON array',
+  ndjson: 'NDJSON (one object per line)'
+};
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Latin-1 (Windows-1252)'
+};
+
+export const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+  whitespace: 'Spaces'
+};
+
+export const DECIMAL_SEPARATOR_LABELS: Record<DecimalSeparator, string> = {
+  '.': 'Point (72.5)',
+  ',': 'Comma (72,5)'
+};
+
+export const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_RECORDS = 50;
+
+// Digits with an optional fraction, once the decimal mark is a point
+const PLAIN_DECIMAL = /^[+-]?\d+(\.\d+)?$/;
+
+// Checked in this order; on a tie the earlier delimiter wins, so files with
+// decimal commas are not mistaken for comma-separated ones
+const CANDIDATE_DELIMITERS: Exclude<Delimiter, 'whitespace'>[] = [';', '\t', '|', ','];
+
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+
+  // UTF-16 without a BOM: mostly-ASCII text leaves every other byte zero
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = sample.length / 2;
+  if (pairs > 0 && oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (pairs > 0 && evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// Whitespace-separated files have no quoting rules, so they are split line by
+// line. Like CsvTokenizer, text can be pushed in chunks.
+class LineTokenizer {
+  private pending = '';
+  private line = 1;
+  private afterCarriageReturn = false;
+
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let start = 0;
+    let i = 0;
+
+    // Second half of a CRLF pair split across chunks
+    if (this.afterCarriageReturn && chunk[0] === '\n') {
+      start = i = 1;
+    }
+    this.afterCarriageReturn = false;
+
+    for (; i < chunk.length; i++) {
+      const ch = chunk[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      this.emit(this.pending + chunk.slice(start, i), records);
+      this.pending = '';
+      if (ch === '\r') {
+        if (i + 1 === chunk.length) this.afterCarriageReturn = true;
+        else if (chunk[i + 1] === '\n') i++;
+      }
+      start = i + 1;
+    }
+
+    this.pending += chunk.slice(start);
+    return records;
+  }
+
+  finish(): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    if (this.pending) this.emit(this.pending, records);
+    this.pending = '';
+    return records;
+  }
+
+  private emit(text: string, records: CsvRecord[]) {
+    const fields = text.trim().split(/\s+/);
+    if (fields[0] !== '') records.push({ fields, line: this.line });
+    this.line++;
+  }
+}
+
+export interface RecordTokenizer {
+  push(chunk: string): CsvRecord[];
+  finish(): CsvRecord[];
+}
+
+export function createTokenizer(delimiter: Delimiter): RecordTokenizer {
+  return delimiter === 'whitespace' ? new LineTokenizer() : new CsvTokenizer({ delimiter });
+}
+
+// Splits text into records using the chosen delimiter
+export function tokenizeRecords(text: string, delimiter: Delimiter, complete = true): CsvRecord[] {
+  const tokenizer = createTokenizer(delimiter);
+  const records = tokenizer.push(text);
+  return complete ? [...records, ...tokenizer.finish()] : records;
+}
+
+// "M1 72,5 3,1" splits as evenly on commas as on spaces. When every line has
+// several space-separated fields and each comma sits inside a number, the
+// commas are decimal marks rather than delimiters.
+function commasAreDecimalMarks(sample: string): boolean {
+  const lines = sample.split(/\r\n|\r|\n/).map(line => line.trim()).filter(line => line !== '').slice(0, SAMPLE_RECORDS);
+  const fields = lines.map(line => line.split(/\s+/));
+  return lines.length > 0 &&
+    fields.every(line => line.length >= 2) &&
+    fields.every(line => line.every(field => !field.includes(',') || /^[+-]?\d+,\d+$/.test(field)));
+}
+
+export function detectDelimiter(sample: string): Delimiter {
+  let best: Delimiter = 'whitespace';
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    if (delimiter === ',' && commasAreDecimalMarks(sample)) continue;
+    const records = sampleRecords(sample, delimiter);
+    if (records.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    records.forEach(record => counts.set(record.fields.length, (counts.get(record.fields.length) ?? 0) + 1));
+    const [mode, occurrences] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (mode < 2) continue;
+
+    // Consistent column counts matter more than many columns
+    const consistency = occurrences / records.length;
+    const score = consistency * consistency * mode;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export function detectDecimalSeparator(records: CsvRecord[]): DecimalSeparator {
+  let commas = 0;
+  let points = 0;
+
+  for (const record of records) {
+    for (const field of record.fields) {
+      const value = field.trim();
+      // "1,500" or "1.500" could be a digit group as easily as a decimal
+      if (/^[+-]?\d{1,3}[.,]\d{3}$/.test(value)) continue;
+      if (/^[+-]?\d+,\d+$/.test(value)) commas++;
+      else if (/^[+-]?\d+\.\d+$/.test(value)) points++;
+    }
+  }
+
+  return commas > points ? ',' : '.';
+}
+
+// Parses a number written with the given decimal mark, ignoring digit-group
+// separators of the other kind. Returns NaN for empty or malformed values,
+// including forms Number() would accept such as "0x1A", "1e3" or "Infinity".
+export function parseDecimal(value: string, decimalSeparator: DecimalSeparator): number {
+  let normalized = value.trim();
+  if (!normalized) return NaN;
+
+  const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+  const grouped = decimalSeparator === ','
+    ? /^[+-]?\d{1,3}(\.\d{3})+(,\d+)?$/
+    : /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+  if (grouped.test(normalized)) {
+    normalized = normalized.split(groupSeparator).join('');
+  }
+  if (decimalSeparator === ',') {
+    if (normalized.includes('.')) return NaN;
+    normalized = normalized.replace(',', '.');
+  }
+
+  return PLAIN_DECIMAL.test(normalized) ? Number(normalized) : NaN;
+}
+
+function isNumeric(value: string, decimalSeparator: DecimalSeparator) {
+  return !isNaN(parseDecimal(value, decimalSeparator));
+}
+
+export function detectHeader(records: CsvRecord[], decimalSeparator: DecimalSeparator): boolean {
+  if (records.length === 0) return false;
+  const first = records[0].fields.filter(field => field.trim() !== '');
+  if (first.some(field => field.trim().toLowerCase() === 'machine_id')) return true;
+  // A header row has no numbers in it, while the data below it does
+  const firstHasNumbers = first.some(field => isNumeric(field, decimalSeparator));
+  const secondHasNumbers = records.length > 1 && records[1].fields.some(field => isNumeric(field, decimalSeparator));
+  return !firstHasNumbers && secondHasNumbers;
+}
+
+// Decodes the start of the file, cut back to the last complete line
+export function sampleText(bytes: Uint8Array, encoding: TextEncoding): string {
+  const text = new TextDecoder(encoding).decode(bytes.subarray(0, SAMPLE_BYTES));
+  if (bytes.length <= SAMPLE_BYTES) return text;
+  const lastBreak = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r'));
+  return lastBreak > 0 ? text.slice(0, lastBreak + 1) : text;
+}
+
+export function sampleRecords(sample: string, delimiter: Delimiter, limit = SAMPLE_RECORDS): CsvRecord[] {
+  try {
+    return tokenizeRecords(sample, delimiter).slice(0, limit);
+  } catch {
+    // The sample may end inside a quoted field; keep the records before it
+    try {
+      return tokenizeRecords(sample, delimiter, false).slice(0, limit);
+    } catch {
+      return [];
+    }
+  }
+}
+
+// Reads only the start of a file for detection and previews. The byte past
+// the sample shows whether the file continues beyond it.
+export async function readSample(file: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(0, SAMPLE_BYTES + 1).arrayBuffer());
+}
+
+export function detectFormat(sample: string): DataFormat {
+  const text = sample.trimStart();
+  if (text.startsWith('[')) return 'json';
+  if (!text.startsWith('{')) return 'delimited';
+
+  // NDJSON puts a complete object on the first line; a pretty-printed object does not
+  try {
+    JSON.parse(text.split(/\r?\n/)[0]);
+    return 'ndjson';
+  } catch {
+    return 'json';
+  }
+}
+
+function sampleJsonRecords(sample: string, limit: number) {
+  try {
+    // The sample may end inside an object; only complete ones are returned
+    return new JsonValueSplitter().push(sample).slice(0, limit);
+  } catch {
+    return [];
+  }
+}
+
+// Records for previews and column mapping, header row first when there is one.
+// JSON objects are flattened to the given field paths, or to every path found
+// in the sample.
+export function previewRecords(
+  bytes: Uint8Array,
+  options: ImportOptions,
+  limit = SAMPLE_RECORDS,
+  paths?: string[]
+): CsvRecord[] {
+  const sample = sampleText(bytes, options.encoding);
+  if (options.format === 'delimited') {
+    return sampleRecords(sample, options.delimiter, limit);
+  }
+
+  const records = sampleJsonRecords(sample, limit);
+  const columns = paths ?? collectPaths(records.map(record => record.value));
+  return [{ fields: columns, line: 0 }, ...records.map(record => toFieldRecord(record, columns))];
+}
+
+export function detectImportOptions(bytes: Uint8Array): ImportOptions {
+  const encoding = detectEncoding(bytes);
+  const sample = sampleText(bytes, encoding);
+
+  // JSON carries its own structure and always writes numbers with a decimal point
+  const format = detectFormat(sample);
+  if (format !== 'delimited') {
+    return { format, encoding, delimiter: ',', decimalSeparator: '.', hasHeader: true };
+  }
+
+  const delimiter = detectDelimiter(sample);
+  const records = sampleRecords(sample, delimiter);
+  const decimalSeparator = detectDecimalSeparator(records.slice(1));
+  const hasHeader = detectHeader(records, decimalSeparator);
+
+  return { format, encoding, delimiter, decimalSeparator, hasHeader };
+}
@@ -0,0 +1,60 @@
+import type { ImportRequest, ImportResponse } from '../workers/importWorker';
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+export type ImportUpdate = Extract<ImportResponse, { type: 'progress' | 'scoring' | 'training' }>;
+export type ImportOutcome = Extract<ImportResponse, { type: 'needsReview' | 'done' | 'trained' }>;
+
+export interface ImportJob {
+  result: Promise<ImportOutcome>;
+  cancel: () => void;
+}
+
+// Runs one request on its own worker. Cancelling terminates the worker, which
+// stops parsing mid-file without waiting for the current chunk, and training
+// mid-epoch.
+export function startImportJob(request: ImportRequest, onUpdate: (update: ImportUpdate) => void): ImportJob {
+  const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+  let settle: ((error?: Error) => void) | null = null;
+
+  const result = new Promise<ImportOutcome>((resolve, reject) => {
+    settle = (error) => {
+      worker.terminate();
+      settle = null;
+      if (error) reject(error);
+    };
+
+    worker.onmessage = (event: MessageEvent<ImportResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case 'progress':
+        case 'scoring':
+        case 'training':
+          onUpdate(response);
+          break;
+        case 'error':
+          settle?.(new Error(response.message));
+          break;
+        default:
+          settle?.();
+          resolve(response);
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      settle?.(new Error(event.message || 'Failed to process file'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => settle?.(new ImportCancelledError())
+  };
+}
@@ -0,0 +1,182 @@
+import type { CsvRecord } from './csv';
+
+// JSON uploads: either one array of objects or one object per line (NDJSON).
+// Each object is one reading. Nested values are addressed by dotted field
+// paths such as "sensors.temperature.value", which play the part of CSV
+// headers in column mapping.
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+export type JsonObject = { [key: string]: JsonValue };
+
+export interface JsonRecord {
+  value: JsonValue;
+  // 1-based line on which the value starts
+  line: number;
+}
+
+function isWhitespace(ch: string) {
+  return ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\uFEFF';
+}
+
+// Splits a stream of JSON text into top-level values. A root array is looked
+// into, so its elements come out one by one; anything else is a sequence of
+// values as in NDJSON. Text can be pushed in chunks of any size.
+export class JsonValueSplitter {
+  private inRootArray = false;
+  private rootArrayClosed = false;
+  private depth = 0;
+  private inValue = false;
+  private inString = false;
+  private escaped = false;
+  private buffer = '';
+  private line = 1;
+  private valueLine = 0;
+  private seenValue = false;
+
+  push(chunk: string): JsonRecord[] {
+    const records: JsonRecord[] = [];
+    let start = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+      if (ch === '\n') this.line++;
+
+      if (this.inValue) {
+        if (this.inString) {
+          if (this.escaped) this.escaped = false;
+          else if (ch === '\\') this.escaped = true;
+          else if (ch === '"') this.inString = false;
+        } else if (ch === '"') {
+          this.inString = true;
+        } else if (ch === '{' || ch === '[') {
+          this.depth++;
+        } else if (ch === '}' || ch === ']') {
+          this.depth--;
+          if (this.depth === 0) {
+            records.push(this.parse(this.buffer + chunk.slice(start, i + 1)));
+            this.buffer = '';
+            this.inValue = false;
+          }
+        }
+        continue;
+      }
+
+      if (isWhitespace(ch)) continue;
+      if (this.inRootArray && ch === ',') continue;
+      if (this.inRootArray && ch === ']') {
+        this.inRootArray = false;
+        this.rootArrayClosed = true;
+        continue;
+      }
+      if (ch === '[' && !this.inRootArray && !this.seenValue) {
+        this.inRootArray = true;
+        this.seenValue = true;
+        continue;
+      }
+      if (ch === '{' && !this.rootArrayClosed) {
+        this.inValue = true;
+        this.seenValue = true;
+        this.depth = 1;
+        this.valueLine = this.line;
+        start = i;
+        continue;
+      }
+      throw new Error(`Expected a JSON object at line ${this.line}`);
+    }
+
+    if (this.inValue) this.buffer += chunk.slice(start);
+    return records;
+  }
+
+  finish(): JsonRecord[] {
+    if (this.inValue) {
+      throw new Error(`Unexpected end of file in the JSON object starting at line ${this.valueLine}`);
+    }
+    if (this.inRootArray) {
+      throw new Error('Unexpected end of file: the JSON array is not closed');
+    }
+    return [];
+  }
+
+  private parse(text: string): JsonRecord {
+    try {
+      return { value: JSON.parse(text), line: this.valueLine };
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'malformed JSON';
+      throw new Error(`Invalid JSON in the object starting at line ${this.valueLine}: ${reason}`);
+    }
+  }
+}
+
+function isObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Dotted paths of every leaf value. Arrays count as leaves; their elements can
+// still be reached with numeric segments, e.g. "sensors.0.value".
+export function leafPaths(value: JsonValue, prefix = '', paths: string[] = []): string[] {
+  if (!isObject(value)) {
+    if (prefix) paths.push(prefix);
+    return paths;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    leafPaths(child, prefix ? `${prefix}.${key}` : key, paths);
+  }
+  return paths;
+}
+
+export function valueAtPath(value: JsonValue, path: string): JsonValue | undefined {
+  let current: JsonValue | undefined = value;
+  for (const segment of path.split('.')) {
+    if (isObject(current)) current = current[segment];
+    else if (Array.isArray(current) && /^\d+$/.test(segment)) current = current[Number(segment)];
+    else return undefined;
+  }
+  return current;
+}
+
+// Field text as the validation step expects it; numbers keep a decimal point
+function fieldText(value: JsonValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Paths in first-seen order across a sample of objects, so keys that only
+// some records carry are still offered for mapping
+export function collectPaths(values: JsonValue[]): string[] {
+  const paths = new Set<string>();
+  values.forEach(value => leafPaths(value).forEach(path => paths.add(path)));
+  return Array.from(paths);
+}
+
+export function toFieldRecord({ value, line }: JsonRecord, paths: string[]): CsvRecord {
+  return { fields: paths.map(path => fieldText(valueAtPath(value, path))), line };
+}
+
+// Reads JSON records as rows of the given field paths, preceded by a header
+// row naming the paths, so they can go through the same reader as CSV files.
+export class JsonRecordTokenizer {
+  private readonly splitter = new JsonValueSplitter();
+  private readonly paths: string[];
+  private headerSent = false;
+
+  constructor(paths: string[]) {
+    this.paths = paths;
+  }
+
+  push(chunk: string): CsvRecord[] {
+    return this.withHeader(this.splitter.push(chunk));
+  }
+
+  finish(): CsvRecord[] {
+    return this.withHeader(this.splitter.finish());
+  }
+
+  private withHeader(records: JsonRecord[]): CsvRecord[] {
+    const rows = records.map(record => toFieldRecord(record, this.paths));
+    if (this.headerSent) return rows;
+    this.headerSent = true;
+    return [{ fields: this.paths, line: 0 }, ...rows];
+  }
+}
@@ -0,0 +1,240 @@
+import { CsvRecord, trimTrailingEmptyColumns } from './csv';
+import { ImportOptions, RecordTokenizer, createTokenizer } from './formatDetection';
+import { JsonRecordTokenizer } from './json';
+import {
+  ColumnMapping,
+  MappableField,
+  mappingProblems,
+  resolveColumns,
+  resolveSensorColumns,
+  suggestMapping
+} from './columnMapping';
+import { CANONICAL_UNITS, UnitSelection } from './units';
+import { ASSET_FIELDS, AssetInfo } from './assets';
+import { FieldValues, RejectedRow, RowIssue, ValidationContext, duplicateIssue, duplicateKey, validateRow } from './validation';
+
+export interface RawMachineRow {
+  machine_id: string;
+  temp: number;
+  vibration: number;
+  runtime: number;
+  timestamp?: number;
+  // 1-based line in the source file
+  line: number;
+  // Name of the file the row came from, e.g. one CSV of a zip archive
+  source?: string;
+  // Extra sensor channels by channel key, in the units the registry gives
+  sensors?: Record<string, number>;
+  asset?: AssetInfo;
+}
+
+export interface ParseSettings {
+  // Header rows are read through a column mapping; without one, columns are
+  // matched by name (see suggestMapping)
+  mapping?: ColumnMapping;
+  // Units the file was written in; values are converted to canonical units
+  units?: UnitSelection;
+}
+
+export interface ParseResult {
+  rows: RawMachineRow[];
+  rejected: RejectedRow[];
+}
+
+// Positions of the fields in headerless files
+const POSITIONAL_COLUMNS: Partial<Record<MappableField, number>> = {
+  machine_id: 0,
+  temp: 1,
+  vibration: 2,
+  runtime: 3,
+  timestamp: 4
+};
+
+// Turns tokenized records into validated rows. Records can be pushed in
+// batches, so the reader works the same for a whole file or a stream of chunks.
+export class MachineDataReader {
+  private readonly options: ImportOptions;
+  private readonly settings: ParseSettings;
+  private headers: string[] | null = null;
+  private columns: Partial<Record<MappableField, number>> = POSITIONAL_COLUMNS;
+  private sensorColumns: Record<string, number> = {};
+  private context: ValidationContext;
+  private readonly seen = new Set<string>();
+  private readonly rows: RawMachineRow[] = [];
+  private readonly rejected: RejectedRow[] = [];
+  private source: string | undefined;
+
+  constructor(options: ImportOptions, settings: ParseSettings = {}) {
+    this.options = options;
+    this.settings = settings;
+    this.context = this.contextFor(POSITIONAL_COLUMNS);
+  }
+
+  get rowCount() {
+    return this.rows.length;
+  }
+
+  get rejectedCount() {
+    return this.rejected.length;
+  }
+
+  // Starts the next file of a multi-file upload. Each file has its own header
+  // row, while duplicates are still detected across files.
+  beginSource(name: string) {
+    this.source = name;
+    this.headers = null;
+    this.columns = POSITIONAL_COLUMNS;
+    this.sensorColumns = {};
+    this.context = this.contextFor(POSITIONAL_COLUMNS);
+  }
+
+  push(records: CsvRecord[]) {
+    for (const record of records) {
+      if (this.options.hasHeader && this.headers === null) {
+        this.readHeader(record);
+      } else if (this.options.hasHeader) {
+        this.readWithHeader(record);
+      } else {
+        this.readWithoutHeader(record);
+      }
+    }
+  }
+
+  finish(): ParseResult {
+    if (this.rows.length === 0 && this.rejected.length === 0) {
+      throw new Error(!this.options.hasHeader
+        ? 'No valid data rows found in file'
+        : this.headers === null
+          ? 'File must contain at least one data row'
+          : 'File must contain at least a header row and one data row');
+    }
+    return { rows: this.rows, rejected: this.rejected };
+  }
+
+  private contextFor(columns: Partial<Record<MappableField, number>>): ValidationContext {
+    const positions: ValidationContext['columns'] = {};
+    for (const [field, index] of Object.entries(columns)) {
+      positions[field as MappableField] = index + 1;
+    }
+    const sensorPositions: Record<string, number> = {};
+    for (const [key, index] of Object.entries(this.sensorColumns)) {
+      sensorPositions[key] = index + 1;
+    }
+    return {
+      decimalSeparator: this.options.decimalSeparator,
+      units: this.settings.units ?? CANONICAL_UNITS,
+      columns: positions,
+      sensorColumns: sensorPositions
+    };
+  }
+
+  private readHeader(record: CsvRecord) {
+    const headers = readHeaders(record);
+    const mapping = this.settings.mapping ?? suggestMapping(headers);
+
+    // Without the required columns no row can be read, so this still fails the upload
+    const problems = mappingProblems(mapping);
+    if (problems.length > 0) {
+      throw new Error(problems.join('. '));
+    }
+
+    this.headers = headers;
+    this.columns = resolveColumns(headers, mapping);
+    this.sensorColumns = resolveSensorColumns(headers, mapping);
+    this.context = this.contextFor(this.columns);
+  }
+
+  private readWithHeader({ fields, line }: CsvRecord) {
+    const width = this.headers!.length;
+    // Trailing delimiters produce extra empty fields that carry no data
+    const values = fields.length > width && fields.slice(width).every(v => v.trim() === '')
+      ? fields.slice(0, width)
+      : fields;
+
+    const structuralIssues: RowIssue[] = values.length === width ? [] : [{
+      kind: 'column_count',
+      message: `Row at line ${line} has ${values.length} columns, expected ${width}`
+    }];
+
+    this.accept(this.fieldValues(values), line, structuralIssues);
+  }
+
+  // Headerless files list machine_id, temp, vibration and runtime in that order,
+  // optionally followed by a timestamp, e.g. "MACH009 78 6.4 18030 2024-03-01T08:00:00Z"
+  private readWithoutHeader({ fields, line }: CsvRecord) {
+    const parts = fields.map(part => part.trim()).filter(part => part);
+    if (parts.length === 0) return;
+
+    const structuralIssues: RowIssue[] = parts.length >= 4 ? [] : [{
+      kind: 'column_count',
+      message: `Row at line ${line} has insufficient data. Expected: machine_id, temp, vibration, runtime`
+    }];
+
+    // A whitespace-separated "2024-03-01 08:00:00" arrives as two parts
+    this.accept(this.fieldValues([...parts.slice(0, 4), parts.slice(4).join(' ')]), line, structuralIssues);
+  }
+
+  private fieldValues(values: string[]): FieldValues {
+    const value = (field: MappableField) => {
+      const index = this.columns[field];
+      return index === undefined ? '' : (values[index] ?? '').trim();
+    };
+    const fields: FieldValues = {
+      machine_id: value('machine_id'),
+      temp: value('temp'),
+      vibration: value('vibration'),
+      runtime: value('runtime'),
+      timestamp: value('timestamp')
+    };
+    const assetFields = ASSET_FIELDS.filter(field => this.columns[field] !== undefined);
+    if (assetFields.length > 0) {
+      fields.asset = Object.fromEntries(assetFields.map(field => [field, value(field)]));
+    }
+    const sensorEntries = Object.entries(this.sensorColumns);
+    if (sensorEntries.length > 0) {
+      fields.sensors = Object.fromEntries(sensorEntries.map(([key, index]) => [key, (values[index] ?? '').trim()]));
+    }
+    return fields;
+  }
+
+  private accept(values: FieldValues, line: number, structuralIssues: RowIssue[]) {
+    const { row, issues } = validateRow(values, line, this.context, structuralIssues);
+    if (!row) {
+      this.rejected.push({ line, source: this.source, values, issues });
+      return;
+    }
+
+    const key = duplicateKey(row);
+    if (this.seen.has(key)) {
+      this.rejected.push({ line, source: this.source, values, issues: [duplicateIssue(row, line)] });
+      return;
+    }
+
+    if (this.source !== undefined) row.source = this.source;
+
+    this.seen.add(key);
+    this.rows.push(row);
+  }
+}
+
+// Splits decoded text into records for MachineDataReader. JSON objects are
+// flattened to the mapped field paths, which then act as the header row.
+export function createRecordTokenizer(options: ImportOptions, settings: ParseSettings = {}): RecordTokenizer {
+  if (options.format === 'delimited') {
+    return createTokenizer(options.delimiter);
+  }
+  const mapping = settings.mapping ?? {};
+  return new JsonRecordTokenizer(Object.keys(mapping).filter(path => mapping[path] !== null));
+}
+
+export function parseMachineData(text: string, options: ImportOptions, settings: ParseSettings = {}): ParseResult {
+  const reader = new MachineDataReader(options, settings);
+  const tokenizer = createRecordTokenizer(options, settings);
+  reader.push(tokenizer.push(text));
+  reader.push(tokenizer.finish());
+  return reader.finish();
+}
+
+export function readHeaders(record: CsvRecord): string[] {
+  return record.fields.slice(0, trimTrailingEmptyColumns(record.fields)).map(h => h.trim());
+}
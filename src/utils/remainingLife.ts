@@ -0,0 +1,85 @@
+import type { SensorReading } from './timeSeries';
+import { RuleSet, ruleFor, topLevelValue } from './riskRules';
+
+// Remaining useful life: how long until temperature or vibration reaches the
+// highest threshold of the machine's rule set, extrapolating the straight-line
+// trend of its time-stamped readings. The interval comes from the uncertainty
+// of the fitted slope, so noisy or short histories give wide intervals.
+
+export interface RemainingLife {
+  // Channel expected to reach its threshold first
+  channel: 'temp' | 'vibration';
+  threshold: number;
+  // 0 once the trend has reached the threshold
+  hours: number;
+  // About 95% interval
+  low: number;
+  high: number;
+}
+
+const LIFE_CHANNELS: RemainingLife['channel'][] = ['temp', 'vibration'];
+
+// Fewer readings say too little about the slope
+const MIN_LIFE_READINGS = 5;
+const MS_PER_HOUR = 3_600_000;
+// Normal approximation of the 95% quantile
+const Z_95 = 1.96;
+
+// Least-squares line with the standard error of its slope
+function fitLine(xs: number[], ys: number[]): { slope: number; intercept: number; slopeError: number } | undefined {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  if (variance === 0) return undefined;
+
+  const slope = covariance / variance;
+  const intercept = meanY - slope * meanX;
+  const residuals = xs.reduce((sum, x, i) => sum + (ys[i] - intercept - slope * x) ** 2, 0);
+  return { slope, intercept, slopeError: Math.sqrt(residuals / (n - 2) / variance) };
+}
+
+function channelLife(readings: SensorReading[], rules: RuleSet, channel: RemainingLife['channel']): RemainingLife | undefined {
+  const rule = ruleFor(rules, channel);
+  if (!rule || rule.risk.length === 0) return undefined;
+  const threshold = topLevelValue(rule);
+  const start = readings[0].timestamp!;
+  const xs = readings.map(reading => (reading.timestamp! - start) / MS_PER_HOUR);
+  const fit = fitLine(xs, readings.map(reading => reading[channel]));
+  if (!fit) return undefined;
+
+  // Distances and rates measured towards the threshold, for rules in either direction
+  const sign = rule.direction === 'below' ? -1 : 1;
+  const gap = sign * (threshold - (fit.intercept + fit.slope * xs[xs.length - 1]));
+  if (gap <= 0) return { channel, threshold, hours: 0, low: 0, high: 0 };
+  // A trend that could as well be flat gives no estimate rather than one of years
+  const rate = sign * fit.slope;
+  const slowest = rate - Z_95 * fit.slopeError;
+  if (slowest <= 0) return undefined;
+
+  return { channel, threshold, hours: gap / rate, low: gap / (rate + Z_95 * fit.slopeError), high: gap / slowest };
+}
+
+// Undefined when the machine has too few time-stamped readings or neither
+// channel is clearly trending towards its threshold. Readings flagged by the
+// data-quality stage are left out of the fit.
+export function estimateRemainingLife(readings: SensorReading[], rules: RuleSet): RemainingLife | undefined {
+  const usable = readings
+    .filter(reading => reading.timestamp !== undefined && !reading.flags?.length)
+    .sort((a, b) => a.timestamp! - b.timestamp!);
+  if (usable.length < MIN_LIFE_READINGS) return undefined;
+  return LIFE_CHANNELS
+    .map(channel => channelLife(usable, rules, channel))
+    .filter((life): life is RemainingLife => life !== undefined)
+    .reduce<RemainingLife | undefined>((soonest, life) => (!soonest || life.hours < soonest.hours ? life : soonest), undefined);
+}
+
+// e.g. "36 h", "12 d"
+export function formatLifeHours(hours: number): string {
+  return hours < 48 ? `${Math.round(hours)} h` : `${Math.round(hours / 24)} d`;
+}
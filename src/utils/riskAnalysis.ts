@@ -0,0 +1,311 @@
+import type { MachineData } from '../App';
+import { AssetInfo, AssetRegistry, mergeAssetInfo } from './assets';
+import { MachineSeries, SensorReading, TrendSummary, groupReadings, summarizeTrend } from './timeSeries';
+import { RiskLevel, continuousRiskPoints, isCoreChannel, riskPoints, sensorChannel } from './sensors';
+import { MIN_DATA_QUALITY, assessDataQuality, machineQuality } from './dataQuality';
+import { RiskCutoffs, RuleSet, ThresholdRule, ruleSetFor, ruleSetLabel } from './riskRules';
+import { FAILURE_PROBABILITY_CUTOFFS, FailureModel, featureContributions, predictFailure } from './failureModel';
+import type { RiskModel } from './riskModels';
+import { estimateRemainingLife } from './remainingLife';
+
+// An extra channel reports its last known value, which may come from an
+// earlier reading when the latest row left the column empty
+function latestSensorValues(readings: SensorReading[]): Record<string, number> {
+  return Object.assign({}, ...readings.map(reading => reading.sensors ?? {}));
+}
+
+// Engine versions are recorded with every result. Bump one whenever a change
+// to its scoring alters the output for the same readings, so older exports can
+// be told apart.
+export const THRESHOLD_ENGINE_VERSION = 'threshold-rules@2.3.0';
+export const HISTORY_ENGINE_VERSION = 'history-zscore@1.1.0';
+
+// One reason behind a machine's score: a reading judged by a rule, a reading
+// rising across the history, a reading straying from the machine's usual
+// values, or a feature of a trained model
+export interface RiskFactor {
+  // Sensor channel key, or temp_trend / vibration_trend
+  key: string;
+  value: number;
+  // Threshold of the highest level reached, absent while the reading is below
+  // every level; for the history statistics, the machine's usual value
+  threshold?: number;
+  direction?: 'above' | 'below';
+  // Whole points counted towards the risk level; absent for trained models
+  points?: number;
+  // Continuous points behind the score within the level (see
+  // continuousRiskPoints), standard scores away from the usual value, or
+  // log-odds of failure added by a trained model
+  weight: number;
+}
+
+const TREND_LABELS: Record<string, string> = {
+  temp_trend: 'Temperature rise',
+  vibration_trend: 'Vibration rise'
+};
+
+// Level whose points a reading earns
+function reachedLevel(rule: ThresholdRule, value: number): RiskLevel | undefined {
+  const points = riskPoints(rule, value);
+  return points > 0 ? rule.risk.find(level => level.points === points) : undefined;
+}
+
+// e.g. "Temperature 84.2 °C, above 80 °C: 2 points"
+export function explainRiskFactor(factor: RiskFactor): string {
+  const channel = sensorChannel(factor.key.replace(/_trend$/, ''));
+  const label = TREND_LABELS[factor.key] ?? channel.label;
+  const withUnit = (value: number) => `${+value.toFixed(2)}${channel.unit ? ` ${channel.unit}` : ''}`;
+  if (factor.points === undefined) {
+    return factor.threshold !== undefined
+      ? `${label} ${withUnit(factor.value)}, ${factor.direction} its usual ${withUnit(factor.threshold)}`
+      : `${label} ${withUnit(factor.value)} raises the failure probability`;
+  }
+  const limit = factor.threshold !== undefined
+    ? `${factor.direction} ${withUnit(factor.threshold)}`
+    : 'within every threshold';
+  return `${label} ${withUnit(factor.value)}, ${limit}: ${factor.points} ${factor.points === 1 ? 'point' : 'points'}`;
+}
+
+// Share of the machine's continuous risk each factor accounts for
+export function riskFactorShares(factors: RiskFactor[]): number[] {
+  const total = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  return factors.map(factor => (total > 0 ? factor.weight / total : 0));
+}
+
+// Score range of each level
+const SCORE_RANGES = {
+  Healthy: { min: 0, max: 0.3 },
+  'At Risk': { min: 0.4, max: 0.8 },
+  Critical: { min: 0.8, max: 1 }
+};
+
+// Confidence grows with history, up to this many readings
+const FULL_CONFIDENCE_READINGS = 10;
+
+// The history statistics need this many earlier readings to know a machine's usual values
+const MIN_BASELINE_READINGS = 5;
+// Standard scores at which each level starts
+const HISTORY_CUTOFFS: RiskCutoffs = { at_risk: 2, critical: 3 };
+// Median absolute deviation scaled to match a standard deviation for normal data
+const MAD_TO_SD = 1.4826;
+
+type ScoredLevel = keyof typeof SCORE_RANGES;
+
+// Span of continuous risk each level covers under a set of cut-offs
+function pointSpan(level: ScoredLevel, { at_risk, critical }: RiskCutoffs) {
+  switch (level) {
+    case 'Healthy': return { from: 0, span: at_risk };
+    case 'At Risk': return { from: at_risk, span: critical - at_risk };
+    case 'Critical': return { from: critical, span: critical };
+  }
+}
+
+function levelFor(risk: number, { at_risk, critical }: RiskCutoffs): ScoredLevel {
+  return risk >= critical ? 'Critical' : risk >= at_risk ? 'At Risk' : 'Healthy';
+}
+
+// Places a machine within the score range of its level
+function scoreWithinLevel(level: ScoredLevel, risk: number, cutoffs: RiskCutoffs): number {
+  const range = SCORE_RANGES[level];
+  const { from, span } = pointSpan(level, cutoffs);
+  const position = Math.min(Math.max((risk - from) / span, 0), 1);
+  return range.min + position * (range.max - range.min);
+}
+
+// What every engine judges a machine by
+export interface MachineContext {
+  readings: SensorReading[];
+  asset?: AssetInfo;
+  trend: TrendSummary;
+  // Latest value of a core or extra channel
+  value: (key: string) => number | undefined;
+}
+
+// Level and score of a machine with reliable readings, with what they rest on
+export interface Assessment {
+  risk_level: MachineData['risk_level'];
+  risk_score: number;
+  // Score kept for sorting when the readings are too unreliable to claim a level
+  unreliable_score: number;
+  risk_factors: RiskFactor[];
+  rule_set: string;
+}
+
+export type Assess = (machine: MachineContext) => Assessment;
+
+// Mock AI risk assessment based on the thresholds of the machine's rule set
+export const assessWithRules = (ruleSets: RuleSet[]): Assess => ({ asset, trend, value: values }) => {
+  const ruleSet = ruleSetFor(ruleSets, asset);
+  const risk_factors: RiskFactor[] = [];
+  for (const rule of ruleSet.rules) {
+    const value = values(rule.channel);
+    const weight = continuousRiskPoints(rule, value);
+    if (value === undefined || weight <= 0) continue;
+    risk_factors.push({
+      key: rule.channel,
+      value,
+      threshold: reachedLevel(rule, value)?.value,
+      direction: rule.direction,
+      points: riskPoints(rule, value),
+      weight
+    });
+  }
+
+  // Temperature or vibration climbing across the recorded history
+  const trendShare = Math.max(
+    trend.temp_change / ruleSet.trend.temp_change,
+    trend.vibration_change / ruleSet.trend.vibration_change,
+    0
+  );
+  const trendRisk = trendShare > 1 ? ruleSet.trend.points : 0;
+  if (trendShare > 0 && ruleSet.trend.points > 0) {
+    // Credited to whichever channel is rising faster against its limit
+    const byTemp = trend.temp_change / ruleSet.trend.temp_change >= trend.vibration_change / ruleSet.trend.vibration_change;
+    const limit = byTemp ? ruleSet.trend.temp_change : ruleSet.trend.vibration_change;
+    risk_factors.push({
+      key: byTemp ? 'temp_trend' : 'vibration_trend',
+      value: byTemp ? trend.temp_change : trend.vibration_change,
+      threshold: trendRisk > 0 ? limit : undefined,
+      direction: 'above',
+      points: trendRisk,
+      weight: Math.min(trendShare, 1) * ruleSet.trend.points
+    });
+  }
+
+  // Levels follow whole points; the score places the machine within its level
+  const totalRisk = risk_factors.reduce((sum, factor) => sum + (factor.points ?? 0), 0);
+  const continuousRisk = risk_factors.reduce((sum, factor) => sum + factor.weight, 0);
+  const risk_level = levelFor(totalRisk, ruleSet.cutoffs);
+
+  return {
+    risk_level,
+    risk_score: scoreWithinLevel(risk_level, continuousRisk, ruleSet.cutoffs),
+    unreliable_score: Math.min(continuousRisk / (2 * ruleSet.cutoffs.critical), 1),
+    risk_factors,
+    rule_set: ruleSetLabel(ruleSet)
+  };
+};
+
+// How far the latest reading strays from the machine's own earlier readings,
+// in robust standard scores (median and median absolute deviation), counting
+// only the direction in which each channel gets riskier
+export const assessAgainstHistory: Assess = ({ readings, value }) => {
+  const baseline = readings.slice(0, -1);
+  if (baseline.length < MIN_BASELINE_READINGS) {
+    return { risk_level: 'Insufficient data', risk_score: 0, unreliable_score: 0, risk_factors: [], rule_set: 'Machine history' };
+  }
+
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  };
+  const keys = ['temp', 'vibration', ...Object.keys(latestSensorValues(readings))];
+  const risk_factors: RiskFactor[] = [];
+  for (const key of keys) {
+    const latest = value(key);
+    const history = baseline
+      .map(reading => (isCoreChannel(key) ? reading[key] : reading.sensors?.[key]))
+      .filter((v): v is number => v !== undefined);
+    if (latest === undefined || history.length < MIN_BASELINE_READINGS) continue;
+    const usual = median(history);
+    // A floor keeps perfectly steady channels from turning noise into alarms
+    const scale = Math.max(MAD_TO_SD * median(history.map(v => Math.abs(v - usual))), Math.abs(usual) * 0.01, 1e-6);
+    const direction = sensorChannel(key).direction ?? 'above';
+    const z = ((direction === 'above' ? 1 : -1) * (latest - usual)) / scale;
+    if (z > 0) risk_factors.push({ key, value: latest, threshold: usual, direction, weight: z });
+  }
+
+  const worst = Math.max(0, ...risk_factors.map(factor => factor.weight));
+  const risk_level = levelFor(worst, HISTORY_CUTOFFS);
+  const risk_score = scoreWithinLevel(risk_level, worst, HISTORY_CUTOFFS);
+  return { risk_level, risk_score, unreliable_score: risk_score, risk_factors, rule_set: 'Machine history' };
+};
+
+// The score is the predicted probability of failure within 30 days
+export const assessWithModel = (model: FailureModel): Assess => ({ value }) => {
+  const features = Object.fromEntries(model.features.map(key => [key, value(key)]));
+  const probability = predictFailure(model, features);
+  const contributions = featureContributions(model, features);
+  return {
+    risk_level: levelFor(probability, FAILURE_PROBABILITY_CUTOFFS),
+    risk_score: probability,
+    unreliable_score: probability,
+    // Only features pushing towards failure explain a risk
+    risk_factors: model.features
+      .map((key, i) => ({ key, value: features[key], weight: contributions[i] }))
+      .filter((factor): factor is RiskFactor => factor.value !== undefined && factor.weight > 0),
+    rule_set: model.name
+  };
+};
+
+// Turns assessments into results. Kept free of React so it can run inside the
+// import worker. Remembered asset metadata is merged in before the quality
+// checks and the choice of rule set, so scores depend only on the readings and
+// the engine's settings, and the same data always scores the same under the
+// same rules or model. Remaining life is estimated against the rule thresholds
+// whichever engine scores.
+export function scoreSeries(
+  series: MachineSeries[],
+  engine_version: string,
+  assess: Assess,
+  ruleSets: RuleSet[],
+  assets: AssetRegistry
+): MachineData[] {
+  const withAssets = series.map(machine => ({ ...machine, asset: mergeAssetInfo(assets[machine.machine_id], machine.asset) }));
+  return assessDataQuality(withAssets).map(({ machine_id, readings, asset }) => {
+    const latest = readings[readings.length - 1];
+    const sensors = latestSensorValues(readings);
+    const trend = summarizeTrend(readings);
+    const quality = machineQuality(readings);
+    const { unreliable_score, ...assessment } = assess({
+      readings,
+      asset,
+      trend,
+      value: key => (isCoreChannel(key) ? latest[key] : sensors[key])
+    });
+    // No level is claimed from unreliable readings
+    const reliable = quality.score >= MIN_DATA_QUALITY;
+
+    return {
+      machine_id,
+      temp: latest.temp,
+      vibration: latest.vibration,
+      runtime: latest.runtime,
+      ...assessment,
+      risk_level: reliable ? assessment.risk_level : 'Insufficient data',
+      risk_score: reliable ? assessment.risk_score : unreliable_score,
+      // Less trustworthy data makes for a less certain prediction
+      prediction_confidence: (0.85 + 0.15 * Math.min(readings.length / FULL_CONFIDENCE_READINGS, 1)) * quality.score,
+      reading_count: readings.length,
+      last_reading_at: latest.timestamp,
+      temp_trend: trend.temp_change,
+      vibration_trend: trend.vibration_change,
+      sensors,
+      data_quality: quality.score,
+      quality_flags: quality.flags,
+      asset,
+      readings,
+      engine_version,
+      remaining_life: estimateRemainingLife(readings, ruleSetFor(ruleSets, asset))
+    };
+  });
+}
+
+// Scores a single machine, such as one entered or edited by hand. Readings go
+// through the same grouping and quality checks as uploads, so timestamped
+// history stays in order and earlier flags are re-evaluated.
+export function scoreMachine(
+  machine_id: string,
+  readings: SensorReading[],
+  model: RiskModel,
+  asset?: AssetInfo
+): MachineData {
+  const rows = readings.map((reading, index) => ({ ...reading, machine_id, line: index + 1, asset }));
+  return model.score(groupReadings(rows))[0];
+}
+
+// Scores machines again from their readings, e.g. after the rules or the engine changed
+export function rescoreFleet(machines: MachineData[], model: RiskModel): MachineData[] {
+  return machines.map(machine => scoreMachine(machine.machine_id, machine.readings, model, machine.asset));
+}
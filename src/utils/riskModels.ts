@@ -0,0 +1,92 @@
+import type { MachineData } from '../App';
+import type { MachineSeries } from './timeSeries';
+import type { RuleSet } from './riskRules';
+import type { AssetRegistry } from './assets';
+import { FAILURE_MODEL_ENGINE_VERSION, FailureModel, modelEngineVersion } from './failureModel';
+import {
+  Assess,
+  HISTORY_ENGINE_VERSION,
+  THRESHOLD_ENGINE_VERSION,
+  assessAgainstHistory,
+  assessWithModel,
+  assessWithRules,
+  scoreSeries
+} from './riskAnalysis';
+
+// Scoring engines the user can choose between. Each turns machine series into
+// scored machines and records its version on every result.
+
+export type ScoringEngine = 'rules' | 'statistical' | 'failure-model';
+
+export interface RiskEngineInfo {
+  engine: ScoringEngine;
+  name: string;
+  // Recorded as engine_version on every machine the engine scores; a trained
+  // model adds its fingerprint after a "+"
+  version: string;
+  description: string;
+}
+
+export interface RiskModel extends RiskEngineInfo {
+  // Takes series as grouped from the rows; quality checks run as part of scoring
+  score(series: MachineSeries[]): MachineData[];
+}
+
+// What the page passes on for scoring, e.g. to the import worker. Plain data,
+// so it can be posted; riskModelFor turns it into the engine.
+export interface ScoringSettings {
+  engine: ScoringEngine;
+  ruleSets: RuleSet[];
+  // Saved trained model, used when the engine is failure-model
+  failureModel?: FailureModel;
+  // Remembered asset metadata, so readings-only uploads pick the same rule set
+  // as the fleet already on the dashboard
+  assets: AssetRegistry;
+}
+
+export const RISK_ENGINES: RiskEngineInfo[] = [
+  {
+    engine: 'rules',
+    name: 'Threshold rules',
+    version: THRESHOLD_ENGINE_VERSION,
+    description: 'Points for readings past the thresholds of the machine\'s rule set'
+  },
+  {
+    engine: 'statistical',
+    name: 'History statistics',
+    version: HISTORY_ENGINE_VERSION,
+    description: 'How far the latest reading strays from the machine\'s own earlier readings'
+  },
+  {
+    engine: 'failure-model',
+    name: 'Trained failure model',
+    version: FAILURE_MODEL_ENGINE_VERSION,
+    description: 'Probability of failure within 30 days, from the saved model'
+  }
+];
+
+// Engine that produced a result, from its recorded version
+export function engineInfo(version: string): RiskEngineInfo | undefined {
+  return RISK_ENGINES.find(info => version === info.version || version.startsWith(`${info.version}+`));
+}
+
+function createRiskModel(
+  engine: ScoringEngine,
+  assess: Assess,
+  ruleSets: RuleSet[],
+  assets: AssetRegistry,
+  version?: string
+): RiskModel {
+  const info = RISK_ENGINES.find(candidate => candidate.engine === engine)!;
+  const engineVersion = version ?? info.version;
+  return { ...info, version: engineVersion, score: series => scoreSeries(series, engineVersion, assess, ruleSets, assets) };
+}
+
+// Without a saved model the trained engine falls back to the rules
+export function riskModelFor({ engine, ruleSets, failureModel, assets }: ScoringSettings): RiskModel {
+  if (engine === 'statistical') return createRiskModel('statistical', assessAgainstHistory, ruleSets, assets);
+  if (engine === 'failure-model' && failureModel) {
+    return createRiskModel('failure-model', assessWithModel(failureModel), ruleSets, assets, modelEngineVersion(failureModel));
+  }
+  return createRiskModel('rules', assessWithRules(ruleSets), ruleSets, assets);
+}
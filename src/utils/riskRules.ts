@@ -0,0 +1,184 @@
+import type { AssetInfo, Criticality } from './assets';
+import { RiskLevel, SENSOR_CHANNELS, riskPoints, sensorChannel } from './sensors';
+
+// Rule sets decide how readings turn into risk levels: the thresholds each
+// channel is judged by, the points (weights) a reading adds, and the point
+// totals at which a machine counts as At Risk or Critical. Machines use the
+// rule set assigned to their model or criticality class, or the default set.
+//
+// Saving a rule set gives it a new version and keeps the previous one, so a
+// score can always be traced back to the exact rules it was made with.
+
+export interface ThresholdRule {
+  // Sensor channel the rule reads (see sensors.ts)
+  channel: string;
+  direction: 'above' | 'below';
+  // Points added once a reading passes each level; the highest level reached counts
+  risk: RiskLevel[];
+}
+
+// Temperature or vibration climbing across the recorded history
+export interface TrendRule {
+  temp_change: number;
+  vibration_change: number;
+  points: number;
+}
+
+// Point totals at which each level starts
+export interface RiskCutoffs {
+  at_risk: number;
+  critical: number;
+}
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  version: number;
+  updatedAt: number;
+  // Machines whose asset model or criticality class is listed use this set;
+  // the default set has neither and covers every other machine
+  models: string[];
+  criticality: Criticality[];
+  rules: ThresholdRule[];
+  trend: TrendRule;
+  cutoffs: RiskCutoffs;
+}
+
+export interface RuleLibrary {
+  // Current version of every rule set, the default first
+  sets: RuleSet[];
+  // Earlier versions, newest first
+  archive: RuleSet[];
+}
+
+export const DEFAULT_RULE_SET_ID = 'default';
+
+// Earlier versions kept per rule set
+const MAX_ARCHIVED_VERSIONS = 10;
+
+const RULES_STORAGE_KEY = 'predictive-maintenance.rule-sets';
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  id: DEFAULT_RULE_SET_ID,
+  name: 'Default',
+  version: 1,
+  updatedAt: 0,
+  models: [],
+  criticality: [],
+  rules: SENSOR_CHANNELS
+    .filter(channel => channel.risk && channel.risk.length > 0)
+    .map(channel => ({ channel: channel.key, direction: channel.direction ?? 'above', risk: channel.risk! })),
+  trend: { temp_change: 5, vibration_change: 1.5, points: 1 },
+  cutoffs: { at_risk: 2, critical: 4 }
+};
+
+export const DEFAULT_RULE_LIBRARY: RuleLibrary = { sets: [DEFAULT_RULE_SET], archive: [] };
+
+export function loadRuleLibrary(): RuleLibrary {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    const library: RuleLibrary | null = stored ? JSON.parse(stored) : null;
+    return library && library.sets.some(set => set.id === DEFAULT_RULE_SET_ID) ? library : DEFAULT_RULE_LIBRARY;
+  } catch {
+    return DEFAULT_RULE_LIBRARY;
+  }
+}
+
+function storeRuleLibrary(library: RuleLibrary) {
+  try {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(library));
+  } catch {
+    // Rules apply for this session only when storage is unavailable
+  }
+}
+
+// Stores a rule set as its next version. New sets start at version 1.
+export function saveRuleSet(library: RuleLibrary, ruleSet: RuleSet): RuleLibrary {
+  const current = library.sets.find(set => set.id === ruleSet.id);
+  const saved: RuleSet = { ...ruleSet, version: current ? current.version + 1 : 1, updatedAt: Date.now() };
+  const archived = new Map<string, number>();
+  const updated: RuleLibrary = {
+    sets: current ? library.sets.map(set => (set.id === ruleSet.id ? saved : set)) : [...library.sets, saved],
+    archive: (current ? [current, ...library.archive] : library.archive).filter(set => {
+      const count = (archived.get(set.id) ?? 0) + 1;
+      archived.set(set.id, count);
+      return count <= MAX_ARCHIVED_VERSIONS;
+    })
+  };
+  storeRuleLibrary(updated);
+  return updated;
+}
+
+// The default set cannot be deleted
+export function deleteRuleSet(library: RuleLibrary, id: string): RuleLibrary {
+  if (id === DEFAULT_RULE_SET_ID) return library;
+  const updated: RuleLibrary = {
+    sets: library.sets.filter(set => set.id !== id),
+    archive: library.archive.filter(set => set.id !== id)
+  };
+  storeRuleLibrary(updated);
+  return updated;
+}
+
+// Problems that would make a rule set score nonsensically, for the editor to show
+export function ruleSetProblems(ruleSet: RuleSet): string[] {
+  const problems: string[] = [];
+  if (ruleSet.name.trim() === '') problems.push('Give the rule set a name.');
+  if (!(ruleSet.cutoffs.at_risk > 0)) problems.push('The At Risk cut-off must be above 0 points.');
+  if (!(ruleSet.cutoffs.critical > ruleSet.cutoffs.at_risk)) problems.push('The Critical cut-off must be above the At Risk cut-off.');
+  for (const rule of ruleSet.rules) {
+    const label = sensorChannel(rule.channel).label;
+    if (rule.risk.length === 0) problems.push(`${label} has no threshold.`);
+    if (rule.risk.some(level => !isFinite(level.value) || !(level.points > 0))) {
+      problems.push(`${label} thresholds need a value and more than 0 points.`);
+    }
+    // Each level must lie further in the rule's direction and count for more
+    // than the one before, so the last level is the highest one reached
+    const rising = rule.risk.every((level, i) => {
+      const previous = rule.risk[i - 1];
+      if (!previous) return true;
+      const further = rule.direction === 'below' ? level.value < previous.value : level.value > previous.value;
+      return further && level.points > previous.points;
+    });
+    if (!rising) {
+      const order = rule.direction === 'below' ? 'lower' : 'higher';
+      problems.push(`Each ${label} threshold must be ${order} than the one before it and give more points.`);
+    }
+  }
+  const channels = ruleSet.rules.map(rule => rule.channel);
+  if (new Set(channels).size !== channels.length) problems.push('Each channel can only have one rule.');
+  if (!(ruleSet.trend.temp_change > 0) || !(ruleSet.trend.vibration_change > 0) || ruleSet.trend.points < 0) {
+    problems.push('Trend changes must be above 0 and trend points cannot be negative.');
+  }
+  return problems;
+}
+
+// Rule set a machine is scored by: one listing its model, then one listing
+// its criticality class, then the default
+export function ruleSetFor(sets: RuleSet[], asset: AssetInfo | undefined): RuleSet {
+  const model = asset?.model?.trim().toLowerCase();
+  const byModel = model ? sets.find(set => set.models.some(m => m.trim().toLowerCase() === model)) : undefined;
+  const byClass = asset?.criticality ? sets.find(set => set.criticality.includes(asset.criticality!)) : undefined;
+  return byModel ?? byClass ?? sets.find(set => set.id === DEFAULT_RULE_SET_ID) ?? DEFAULT_RULE_SET;
+}
+
+// How a result records the rules behind it, e.g. "Default v3"
+export function ruleSetLabel(ruleSet: RuleSet): string {
+  return `${ruleSet.name} v${ruleSet.version}`;
+}
+
+export function ruleFor(ruleSet: RuleSet, channel: string): ThresholdRule | undefined {
+  return ruleSet.rules.find(rule => rule.channel === channel);
+}
+
+// Whether a reading reaches the highest level of its rule, which the dashboard highlights
+export function reachesTopLevel(rule: ThresholdRule | undefined, value: number | undefined): boolean {
+  if (!rule || rule.risk.length === 0) return false;
+  const top = Math.max(...rule.risk.map(level => level.points));
+  return riskPoints(rule, value) >= top;
+}
+
+// Reading at which a rule's highest level starts
+export function topLevelValue(rule: ThresholdRule): number {
+  return rule.risk.reduce((top, level) => (level.points > top.points ? level : top), rule.risk[0]).value;
+}
@@ -0,0 +1,197 @@
+// Registry of sensor channels. Each channel says how its values are named,
+// which values are physically possible and how much a reading adds to a
+// machine's risk. temp, vibration and runtime are the core channels every
+// file must have; the others are read when a file has a matching column.
+//
+// Numeric columns that match no channel are still imported as ad-hoc
+// channels keyed by their header. They are shown and exported but carry no
+// range or risk until a channel is registered for them here.
+
+export interface RiskLevel {
+  // Reading at which the level starts
+  value: number;
+  // Added to the machine's risk total; the highest level reached counts
+  points: number;
+}
+
+export interface SensorChannel {
+  key: string;
+  label: string;
+  // Unit the values are stored in; empty when the channel has none
+  unit: string;
+  // Physically possible values. Readings outside are rejected during import.
+  range?: { min?: number; max?: number; reason?: string };
+  // Values seen on working equipment. Readings outside are kept but lower the data quality.
+  plausible?: { min?: number; max?: number };
+  // Whether high or low readings are the dangerous ones
+  direction?: 'above' | 'below';
+  // Default thresholds
+  risk?: RiskLevel[];
+  // Headers recognized as this channel, after lower-casing and replacing spaces with underscores
+  pattern?: RegExp;
+}
+
+// Thresholds on a reading, from the registry or from a rule
+export type RiskScale = Pick<SensorChannel, 'direction' | 'risk'>;
+
+export type CoreChannel = 'temp' | 'vibration' | 'runtime';
+
+export const CORE_CHANNELS: CoreChannel[] = ['temp', 'vibration', 'runtime'];
+
+export const SENSOR_CHANNELS: SensorChannel[] = [
+  {
+    key: 'temp',
+    label: 'Temperature',
+    unit: '°C',
+    range: { min: -273.15, reason: 'below absolute zero' },
+    plausible: { min: -50, max: 250 },
+    direction: 'above',
+    risk: [{ value: 65, points: 1 }, { value: 80, points: 2 }]
+  },
+  {
+    key: 'vibration',
+    label: 'Vibration',
+    unit: 'mm/s',
+    range: { min: 0, reason: 'vibration cannot be negative' },
+    plausible: { max: 100 },
+    direction: 'above',
+    risk: [{ value: 5, points: 1 }, { value: 8, points: 2 }]
+  },
+  {
+    key: 'runtime',
+    label: 'Runtime',
+    unit: 'hours',
+    range: { min: 0, reason: 'runtime cannot be negative' },
+    // About 30 years of continuous operation
+    plausible: { max: 265000 },
+    direction: 'above',
+    risk: [{ value: 20000, points: 1 }]
+  },
+  {
+    key: 'pressure',
+    label: 'Pressure',
+    unit: 'bar',
+    range: { min: 0, reason: 'absolute pressure cannot be negative' },
+    plausible: { max: 400 },
+    direction: 'above',
+    risk: [{ value: 8, points: 1 }, { value: 10, points: 2 }],
+    pattern: /pressure|^press(_bar)?$/
+  },
+  {
+    key: 'motor_current',
+    label: 'Motor Current',
+    unit: 'A',
+    range: { min: 0, reason: 'current draw cannot be negative' },
+    plausible: { max: 2000 },
+    direction: 'above',
+    risk: [{ value: 40, points: 1 }, { value: 55, points: 2 }],
+    pattern: /current|^(amps|amperage)$/
+  },
+  {
+    key: 'rpm',
+    label: 'Speed',
+    unit: 'rpm',
+    range: { min: 0, reason: 'speed cannot be negative' },
+    plausible: { max: 30000 },
+    direction: 'above',
+    risk: [{ value: 3600, points: 1 }],
+    pattern: /^(rpm|speed|shaft_speed|motor_speed)$/
+  },
+  {
+    key: 'oil_quality',
+    label: 'Oil Quality',
+    unit: '%',
+    range: { min: 0, max: 100, reason: 'oil quality is a percentage' },
+    direction: 'below',
+    risk: [{ value: 60, points: 1 }, { value: 40, points: 2 }],
+    pattern: /^oil(_quality|_condition|_health)?(_pct|_percent)?$/
+  }
+];
+
+const CHANNELS_BY_KEY = new Map(SENSOR_CHANNELS.map(channel => [channel.key, channel]));
+
+export function isCoreChannel(key: string): key is CoreChannel {
+  return CORE_CHANNELS.includes(key as CoreChannel);
+}
+
+// Registered channel for a key, or a bare ad-hoc channel named after it
+export function sensorChannel(key: string): SensorChannel {
+  return CHANNELS_BY_KEY.get(key) ?? { key, label: key, unit: '' };
+}
+
+// Registered extra channel whose key or header pattern matches a column name
+export function registeredChannelFor(name: string): SensorChannel | undefined {
+  return SENSOR_CHANNELS.find(channel =>
+    !isCoreChannel(channel.key) && (channel.key === name || channel.pattern?.test(name))
+  );
+}
+
+// Key for a column that matches no registered channel: its name in snake_case
+export function adHocChannelKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+export function isRegisteredChannel(key: string): boolean {
+  return CHANNELS_BY_KEY.has(key);
+}
+
+export function outOfRange(channel: SensorChannel, value: number): boolean {
+  const { min, max } = channel.range ?? {};
+  return (min !== undefined && value < min) || (max !== undefined && value > max);
+}
+
+// Points a reading adds to the risk total
+export function riskPoints(channel: RiskScale, value: number | undefined): number {
+  if (value === undefined || !isFinite(value) || !channel.risk) return 0;
+  const below = channel.direction === 'below';
+  return channel.risk.reduce(
+    (points, level) => ((below ? value < level.value : value > level.value) ? Math.max(points, level.points) : points),
+    0
+  );
+}
+
+// Where the baseline of a channel's risk scale sits relative to its first level
+const RISK_BASELINE_FACTOR = { above: 0.5, below: 1.5 };
+
+// riskPoints as a continuous value: the points of the level reached plus the
+// share of the way to the next level, so two readings past the same threshold
+// still differ by how far past it they are. Readings rise from 0 at half the
+// first level (or 1.5 times it for channels where low readings are dangerous),
+// and past the last level by one point over the width of the step before it.
+export function continuousRiskPoints(channel: RiskScale, value: number | undefined): number {
+  if (value === undefined || !isFinite(value) || !channel.risk || channel.risk.length === 0) return 0;
+  const below = channel.direction === 'below';
+  const levels = [...channel.risk].sort((a, b) => a.points - b.points);
+  const steps = [{ value: levels[0].value * RISK_BASELINE_FACTOR[below ? 'below' : 'above'], points: 0 }, ...levels];
+  // Distance past a level in the dangerous direction
+  const past = (level: number) => (below ? level - value : value - level);
+
+  let reached = -1;
+  steps.forEach((step, index) => { if (past(step.value) > 0) reached = index; });
+  if (reached < 0) return 0;
+
+  const current = steps[reached];
+  const next = steps[reached + 1];
+  if (next) {
+    const width = Math.abs(next.value - current.value);
+    return current.points + (width > 0 ? Math.min(past(current.value) / width, 1) : 0) * (next.points - current.points);
+  }
+  const width = Math.abs(current.value - steps[reached - 1].value);
+  return current.points + (width > 0 ? Math.min(past(current.value) / width, 1) : 0);
+}
+
+export function channelLabel(channel: SensorChannel): string {
+  return channel.unit ? `${channel.label} (${channel.unit})` : channel.label;
+}
+
+// Keys of the extra channels found across a set of machines, registered
+// channels first in registry order, then ad-hoc ones by name
+export function extraChannelKeys(sensorMaps: Iterable<Record<string, number> | undefined>): string[] {
+  const keys = new Set<string>();
+  for (const sensors of sensorMaps) {
+    if (sensors) Object.keys(sensors).forEach(key => keys.add(key));
+  }
+  const registered = SENSOR_CHANNELS.filter(channel => keys.has(channel.key)).map(channel => channel.key);
+  const adHoc = Array.from(keys).filter(key => !isRegisteredChannel(key)).sort();
+  return [...registered, ...adHoc];
+}
@@ -0,0 +1,111 @@
+import type { RawMachineRow } from './parsers';
+import { AssetInfo, mergeAssetInfo } from './assets';
+import type { QualityFlag } from './dataQuality';
+
+export interface SensorReading {
+  // Epoch milliseconds; absent when the file has no timestamp column
+  timestamp?: number;
+  temp: number;
+  vibration: number;
+  runtime: number;
+  // File the reading was imported from
+  source?: string;
+  // Extra sensor channels by channel key (see sensors.ts)
+  sensors?: Record<string, number>;
+  // Problems found by the data-quality stage
+  flags?: QualityFlag[];
+}
+
+export interface MachineSeries {
+  machine_id: string;
+  // Oldest first; the last entry is the machine's current state
+  readings: SensorReading[];
+  // Metadata from the machine's rows, later rows filling in or overriding earlier ones
+  asset?: AssetInfo;
+}
+
+export interface TrendSummary {
+  // Change across the recorded history according to a least-squares fit
+  temp_change: number;
+  vibration_change: number;
+}
+
+const MIN_TREND_READINGS = 3;
+
+// Accepts ISO 8601 ("2024-03-01T08:00:00Z"), "2024-03-01 08:00:00" and Unix
+// epochs in seconds or milliseconds. Returns NaN when the value is not a date.
+export function parseTimestamp(value: string): number {
+  const trimmed = value.trim();
+  if (!trimmed) return NaN;
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    const epoch = Number(trimmed);
+    // Anything below 1e11 would be before 1973 in milliseconds, so it must be seconds
+    return epoch < 1e11 ? epoch * 1000 : epoch;
+  }
+
+  return Date.parse(trimmed.replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2'));
+}
+
+// Groups readings by machine, keeping the order they were recorded in. Rows
+// without timestamps stay in file order.
+export function groupReadings(rows: RawMachineRow[]): MachineSeries[] {
+  const series = new Map<string, SensorReading[]>();
+  const assets = new Map<string, AssetInfo>();
+
+  for (const row of rows) {
+    if (row.asset) assets.set(row.machine_id, mergeAssetInfo(assets.get(row.machine_id), row.asset)!);
+
+    let readings = series.get(row.machine_id);
+    if (!readings) {
+      readings = [];
+      series.set(row.machine_id, readings);
+    }
+    readings.push({
+      timestamp: row.timestamp,
+      temp: row.temp,
+      vibration: row.vibration,
+      runtime: row.runtime,
+      source: row.source,
+      sensors: row.sensors
+    });
+  }
+
+  return Array.from(series, ([machine_id, readings]) => ({
+    machine_id,
+    readings: readings.every(r => r.timestamp !== undefined)
+      ? readings.sort((a, b) => a.timestamp! - b.timestamp!)
+      : readings,
+    asset: assets.get(machine_id)
+  }));
+}
+
+function changeAcross(readings: SensorReading[], key: 'temp' | 'vibration'): number {
+  const timed = readings.every(r => r.timestamp !== undefined);
+  const xs = readings.map((r, i) => (timed ? r.timestamp! : i));
+  const ys = readings.map(r => r[key]);
+
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  if (variance === 0) return 0;
+
+  return (covariance / variance) * (xs[n - 1] - xs[0]);
+}
+
+export function summarizeTrend(readings: SensorReading[]): TrendSummary {
+  if (readings.length < MIN_TREND_READINGS) {
+    return { temp_change: 0, vibration_change: 0 };
+  }
+
+  return {
+    temp_change: changeAcross(readings, 'temp'),
+    vibration_change: changeAcross(readings, 'vibration')
+  };
+}
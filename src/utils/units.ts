@@ -0,0 +1,101 @@
+// Sensor units. Everything is stored in canonical units (°C, mm/s, hours) so
+// the risk thresholds always compare like with like; other units are converted
+// on the way in and, for display, on the way out.
+
+export type TemperatureUnit = 'C' | 'F' | 'K';
+export type VibrationUnit = 'mm_s' | 'in_s';
+export type RuntimeUnit = 'h' | 'min' | 's' | 'd';
+
+export interface UnitSelection {
+  temp: TemperatureUnit;
+  vibration: VibrationUnit;
+  runtime: RuntimeUnit;
+}
+
+export type UnitQuantity = keyof UnitSelection;
+export type SensorUnit = TemperatureUnit | VibrationUnit | RuntimeUnit;
+export type UnitSystem = 'metric' | 'imperial';
+
+export const CANONICAL_UNITS: UnitSelection = { temp: 'C', vibration: 'mm_s', runtime: 'h' };
+
+export const UNIT_LABELS: { [Q in UnitQuantity]: Record<UnitSelection[Q], string> } = {
+  temp: { C: '°C', F: '°F', K: 'K' },
+  vibration: { mm_s: 'mm/s', in_s: 'in/s' },
+  runtime: { h: 'hours', min: 'minutes', s: 'seconds', d: 'days' }
+};
+
+export const UNIT_SYSTEMS: Record<UnitSystem, { label: string; temp: TemperatureUnit; vibration: VibrationUnit }> = {
+  metric: { label: 'Metric (°C, mm/s)', temp: 'C', vibration: 'mm_s' },
+  imperial: { label: 'Imperial (°F, in/s)', temp: 'F', vibration: 'in_s' }
+};
+
+// Matched against the normalized header, e.g. "Temp (°F)" -> "temp_f"
+const HEADER_UNIT_PATTERNS: { [Q in UnitQuantity]: [RegExp, UnitSelection[Q]][] } = {
+  temp: [
+    [/(^|_)(deg_?)?f$|fahrenheit/, 'F'],
+    [/(^|_)(deg_?)?c$|celsius/, 'C'],
+    [/(^|_)k$|kelvin/, 'K']
+  ],
+  vibration: [
+    [/(^|_)(in_?s|ips|in_per_s(ec)?)$/, 'in_s'],
+    [/(^|_)(mm_?s|mm_per_s(ec)?)$/, 'mm_s']
+  ],
+  runtime: [
+    [/(^|_)(min|mins|minutes?)$/, 'min'],
+    [/(^|_)(h|hr|hrs|hours?)$/, 'h'],
+    [/(^|_)(s|sec|secs|seconds?)$/, 's'],
+    [/(^|_)days?$/, 'd']
+  ]
+};
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+export function unitFromHeader<Q extends UnitQuantity>(quantity: Q, header: string): UnitSelection[Q] | undefined {
+  const normalized = normalizeHeader(header);
+  const patterns = HEADER_UNIT_PATTERNS[quantity] as [RegExp, UnitSelection[Q]][];
+  return patterns.find(([pattern]) => pattern.test(normalized))?.[1];
+}
+
+// Units declared by the headers mapped to each sensor field
+export function unitsFromHeaders(headers: string[], mapping: Record<string, string | null>): Partial<UnitSelection> {
+  const units: Partial<UnitSelection> = {};
+  for (const header of headers) {
+    const field = mapping[header];
+    if (field === 'temp' || field === 'vibration' || field === 'runtime') {
+      const unit = unitFromHeader(field, header);
+      if (unit) (units as Record<string, string>)[field] = unit;
+    }
+  }
+  return units;
+}
+
+export function toCanonical(value: number, unit: SensorUnit): number {
+  switch (unit) {
+    case 'F': return (value - 32) * 5 / 9;
+    case 'K': return value - 273.15;
+    case 'in_s': return value * 25.4;
+    case 'min': return value / 60;
+    case 's': return value / 3600;
+    case 'd': return value * 24;
+    default: return value;
+  }
+}
+
+export function fromCanonical(value: number, unit: SensorUnit): number {
+  switch (unit) {
+    case 'F': return value * 9 / 5 + 32;
+    case 'K': return value + 273.15;
+    case 'in_s': return value / 25.4;
+    case 'min': return value * 60;
+    case 's': return value * 3600;
+    case 'd': return value / 24;
+    default: return value;
+  }
+}
+
+// Converts a difference between two readings, where temperature offsets cancel out
+export function deltaFromCanonical(delta: number, unit: SensorUnit): number {
+  return fromCanonical(delta, unit) - fromCanonical(0, unit);
+}
@@ -0,0 +1,69 @@
+import type { MachineData } from '../App';
+
+// Every processed upload is kept with its scored machines, so an earlier
+// dataset can be reopened after later uploads have replaced it. The history is
+// stored with the rest of the workspace (see workspace.ts), so only the latest
+// readings of each machine are kept to bound its size.
+
+export type RiskLevelName = MachineData['risk_level'];
+
+// What the import knows about an upload besides its scored machines
+export interface UploadInfo {
+  name: string;
+  // Fingerprint of the uploaded content (see contentHash.ts)
+  hash: string;
+}
+
+export interface UploadRecord extends UploadInfo {
+  id: string;
+  uploadedAt: number;
+  rowCount: number;
+  riskCounts: Partial<Record<RiskLevelName, number>>;
+  // Machines as scored from this upload alone, before merging with the fleet,
+  // with at most MAX_STORED_READINGS readings each; reading_count keeps the full count
+  machines: MachineData[];
+}
+
+export const RISK_LEVEL_ORDER: RiskLevelName[] = ['Critical', 'At Risk', 'Healthy', 'Insufficient data'];
+
+// Oldest entries are dropped beyond this
+export const MAX_UPLOAD_HISTORY = 20;
+// Enough for the reading history chart and trends of a reopened upload
+export const MAX_STORED_READINGS = 100;
+
+function riskCounts(machines: MachineData[]): UploadRecord['riskCounts'] {
+  const counts: UploadRecord['riskCounts'] = {};
+  machines.forEach(machine => { counts[machine.risk_level] = (counts[machine.risk_level] ?? 0) + 1; });
+  return counts;
+}
+
+function withLatestReadings(machine: MachineData): MachineData {
+  return machine.readings.length > MAX_STORED_READINGS
+    ? { ...machine, readings: machine.readings.slice(-MAX_STORED_READINGS) }
+    : machine;
+}
+
+// Adds an upload at the top of the history. Uploading the same content again
+// moves its entry to the top and keeps the name it was given.
+export function recordUpload(history: UploadRecord[], machines: MachineData[], upload: UploadInfo): UploadRecord[] {
+  const previous = history.find(record => record.hash === upload.hash);
+  const uploadedAt = Date.now();
+  const record: UploadRecord = {
+    id: previous?.id ?? `${uploadedAt.toString(36)}-${upload.hash.slice(0, 8)}`,
+    name: previous?.name ?? upload.name,
+    hash: upload.hash,
+    uploadedAt,
+    rowCount: machines.reduce((total, machine) => total + machine.reading_count, 0),
+    riskCounts: riskCounts(machines),
+    machines: machines.map(withLatestReadings)
+  };
+  return [record, ...history.filter(r => r !== previous)].slice(0, MAX_UPLOAD_HISTORY);
+}
+
+export function renameUpload(history: UploadRecord[], id: string, name: string): UploadRecord[] {
+  return history.map(record => (record.id === id ? { ...record, name } : record));
+}
+
+export function deleteUpload(history: UploadRecord[], id: string): UploadRecord[] {
+  return history.filter(record => record.id !== id);
+}
@@ -0,0 +1,241 @@
+import { DecimalSeparator, parseDecimal } from './formatDetection';
+import { parseTimestamp } from './timeSeries';
+import { UnitSelection, toCanonical } from './units';
+import { CORE_CHANNELS, outOfRange, sensorChannel } from './sensors';
+import { ASSET_FIELDS, AssetField, AssetInfo, parseCriticality } from './assets';
+import type { RawMachineRow } from './parsers';
+
+// Row-level validation. Problems are collected per row rather than thrown, so
+// one bad line only costs that line; the upload shows them in a report where
+// rows can be fixed or dropped.
+
+export type IssueKind =
+  | 'column_count'
+  | 'missing_id'
+  | 'non_numeric'
+  | 'invalid_timestamp'
+  | 'impossible_value'
+  | 'unknown_value'
+  | 'duplicate';
+
+export interface RowIssue {
+  kind: IssueKind;
+  message: string;
+  field?: TextField;
+  // Channel key when the problem is in an extra sensor column
+  sensor?: string;
+  // Asset metadata field with the problem
+  assetField?: AssetField;
+  // 1-based source column
+  column?: number;
+}
+
+// Raw text of each field as it appeared in the file
+export interface FieldValues {
+  machine_id: string;
+  temp: string;
+  vibration: string;
+  runtime: string;
+  timestamp: string;
+  // Extra sensor channels by channel key
+  sensors?: Record<string, string>;
+  // Asset metadata columns present in the file
+  asset?: Partial<Record<AssetField, string>>;
+}
+
+// Fields holding a single value, as opposed to the extra sensor map
+export type TextField = Exclude<keyof FieldValues, 'sensors' | 'asset'>;
+
+export interface RejectedRow {
+  line: number;
+  source?: string;
+  values: FieldValues;
+  issues: RowIssue[];
+}
+
+export interface ValidationContext {
+  decimalSeparator: DecimalSeparator;
+  units: UnitSelection;
+  // Source column of each field, for error positions
+  columns?: Partial<Record<TextField | AssetField, number>>;
+  // Source column of each extra sensor channel
+  sensorColumns?: Record<string, number>;
+}
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  column_count: 'Wrong column count',
+  missing_id: 'Missing machine ID',
+  non_numeric: 'Non-numeric value',
+  invalid_timestamp: 'Invalid timestamp',
+  impossible_value: 'Physically impossible',
+  unknown_value: 'Unrecognized value',
+  duplicate: 'Duplicate reading'
+};
+
+function position(line: number, column?: number) {
+  return column === undefined ? `line ${line}` : `line ${line}, column ${column}`;
+}
+
+// Builds a row from raw field text, converting to canonical units. Returns the
+// row only when there were no problems.
+export function validateRow(
+  values: FieldValues,
+  line: number,
+  context: ValidationContext,
+  structuralIssues: RowIssue[] = []
+): { row?: RawMachineRow; issues: RowIssue[] } {
+  const issues = [...structuralIssues];
+  const columns = context.columns ?? {};
+
+  const machineId = values.machine_id.trim();
+  if (!machineId) {
+    issues.push({
+      kind: 'missing_id',
+      field: 'machine_id',
+      column: columns.machine_id,
+      message: `Missing machine_id at ${position(line, columns.machine_id)}`
+    });
+  }
+
+  const row: RawMachineRow = { machine_id: machineId, temp: NaN, vibration: NaN, runtime: NaN, line };
+
+  for (const field of CORE_CHANNELS) {
+    const value = parseDecimal(values[field], context.decimalSeparator);
+    if (!isFinite(value)) {
+      issues.push({
+        kind: 'non_numeric',
+        field,
+        column: columns[field],
+        message: `Invalid ${field} value at ${position(line, columns[field])}: ${values[field] || '(empty)'}`
+      });
+      continue;
+    }
+
+    row[field] = toCanonical(value, context.units[field]);
+    const channel = sensorChannel(field);
+    if (outOfRange(channel, row[field])) {
+      issues.push({
+        kind: 'impossible_value',
+        field,
+        column: columns[field],
+        message: `Impossible ${field} value at ${position(line, columns[field])}: ${values[field]} (${channel.range?.reason})`
+      });
+    }
+  }
+
+  // Extra sensors are optional per row; an empty cell is a missing reading
+  for (const [key, text] of Object.entries(values.sensors ?? {})) {
+    if (text.trim() === '') continue;
+    const column = context.sensorColumns?.[key];
+    const value = parseDecimal(text, context.decimalSeparator);
+    if (!isFinite(value)) {
+      issues.push({
+        kind: 'non_numeric',
+        sensor: key,
+        column,
+        message: `Invalid ${key} value at ${position(line, column)}: ${text}`
+      });
+      continue;
+    }
+
+    const channel = sensorChannel(key);
+    if (outOfRange(channel, value)) {
+      issues.push({
+        kind: 'impossible_value',
+        sensor: key,
+        column,
+        message: `Impossible ${key} value at ${position(line, column)}: ${text} (${channel.range?.reason ?? 'out of range'})`
+      });
+      continue;
+    }
+    row.sensors = { ...row.sensors, [key]: value };
+  }
+
+  // Optional reading time; files with repeated machine IDs form a time series
+  if (values.timestamp.trim() !== '') {
+    const timestamp = parseTimestamp(values.timestamp);
+    if (isNaN(timestamp)) {
+      issues.push({
+        kind: 'invalid_timestamp',
+        field: 'timestamp',
+        column: columns.timestamp,
+        message: `Invalid timestamp value at ${position(line, columns.timestamp)}: ${values.timestamp}`
+      });
+    } else {
+      row.timestamp = timestamp;
+    }
+  }
+
+  const asset = validateAsset(values.asset ?? {}, line, context, issues);
+  if (asset) row.asset = asset;
+
+  return issues.length === 0 ? { row, issues } : { issues };
+}
+
+// Metadata is optional, so empty cells are skipped; dates and criticality
+// classes must still be readable when given
+function validateAsset(
+  values: Partial<Record<AssetField, string>>,
+  line: number,
+  context: ValidationContext,
+  issues: RowIssue[]
+): AssetInfo | undefined {
+  const asset: AssetInfo = {};
+  const columns = context.columns ?? {};
+
+  for (const field of ASSET_FIELDS) {
+    const text = values[field]?.trim() ?? '';
+    if (text === '') continue;
+    const column = columns[field];
+
+    if (field === 'install_date') {
+      const date = parseTimestamp(text);
+      if (isNaN(date)) {
+        issues.push({
+          kind: 'invalid_timestamp',
+          assetField: field,
+          column,
+          message: `Invalid install_date value at ${position(line, column)}: ${text}`
+        });
+      } else {
+        asset.install_date = new Date(date).toISOString().slice(0, 10);
+      }
+    } else if (field === 'criticality') {
+      const criticality = parseCriticality(text);
+      if (!criticality) {
+        issues.push({
+          kind: 'unknown_value',
+          assetField: field,
+          column,
+          message: `Unrecognized criticality at ${position(line, column)}: ${text} (expected High, Medium or Low)`
+        });
+      } else {
+        asset.criticality = criticality;
+      }
+    } else {
+      asset[field] = text;
+    }
+  }
+
+  return Object.keys(asset).length > 0 ? asset : undefined;
+}
+
+// Two rows are duplicates when they describe the same machine at the same
+// time; without timestamps only identical readings, extra sensors included, count
+export function duplicateKey(row: RawMachineRow): string {
+  if (row.timestamp !== undefined) return `${row.machine_id}\u0000${row.timestamp}`;
+  const sensors = Object.entries(row.sensors ?? {})
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`);
+  return [row.machine_id, row.temp, row.vibration, row.runtime, ...sensors].join('\u0000');
+}
+
+export function duplicateIssue(row: RawMachineRow, line: number): RowIssue {
+  return {
+    kind: 'duplicate',
+    field: 'machine_id',
+    message: row.timestamp !== undefined
+      ? `Duplicate reading for ${row.machine_id} at line ${line}: same timestamp as an earlier row`
+      : `Duplicate reading for ${row.machine_id} at line ${line}: identical to an earlier row`
+  };
+}
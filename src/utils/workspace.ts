@@ -0,0 +1,145 @@
+import type { MachineData } from '../App';
+import type { AssetField } from './assets';
+import type { MergeMode } from './fleetMerge';
+import type { UnitSystem } from './units';
+import type { UploadRecord } from './uploadHistory';
+import type { ScoringEngine } from './riskModels';
+
+// The workspace survives page reloads in IndexedDB, which unlike localStorage
+// has room for whole datasets. Every read and write is allowed to fail, as in
+// private windows; the page then works as before, for the session only.
+
+export interface DashboardViewState {
+  searchTerm: string;
+  // 'all' or a risk level
+  statusFilter: string;
+  assetFilters: Partial<Record<AssetField, string>>;
+  groupBy: AssetField | 'none';
+  // A MachineData key or a sensor target (see columnMapping.ts)
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+}
+
+export interface Preferences {
+  unitSystem: UnitSystem;
+  // How an upload is combined with machines already loaded
+  mergeMode: MergeMode;
+  // Falls back to the rules while no model is saved
+  scoringEngine: ScoringEngine;
+}
+
+export interface Workspace {
+  fleet: MachineData[];
+  dashboardView: DashboardViewState;
+  preferences: Preferences;
+  uploadHistory: UploadRecord[];
+}
+
+export const DEFAULT_DASHBOARD_VIEW: DashboardViewState = {
+  searchTerm: '',
+  statusFilter: 'all',
+  assetFilters: {},
+  groupBy: 'none',
+  sortBy: 'risk_score',
+  sortOrder: 'desc'
+};
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  unitSystem: 'metric',
+  mergeMode: 'replace',
+  scoringEngine: 'rules'
+};
+
+const DATABASE_NAME = 'predictive-maintenance';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'workspace';
+// Settings that still live in localStorage, such as mapping profiles and asset metadata
+const LOCAL_STORAGE_PREFIX = 'predictive-maintenance.';
+
+const WORKSPACE_KEYS: (keyof Workspace)[] = ['fleet', 'dashboardView', 'preferences', 'uploadHistory'];
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Opened once and shared; reset after clearing so the next write recreates it
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => {
+      // Lets Clear local data in another tab delete the database
+      request.result.onversionchange = () => {
+        request.result.close();
+        database = null;
+      };
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getDatabase(): Promise<IDBDatabase> {
+  if (!database) database = openDatabase();
+  return database;
+}
+
+// Whatever was saved; parts never saved or unreadable are left out
+export async function loadWorkspace(): Promise<Partial<Workspace>> {
+  try {
+    const store = (await getDatabase()).transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const values = await Promise.all(WORKSPACE_KEYS.map(key => requestResult(store.get(key))));
+    const workspace: Partial<Workspace> = {};
+    WORKSPACE_KEYS.forEach((key, index) => {
+      if (values[index] !== undefined) (workspace as Record<keyof Workspace, unknown>)[key] = values[index];
+    });
+    return workspace;
+  } catch {
+    return {};
+  }
+}
+
+export async function saveWorkspace<K extends keyof Workspace>(key: K, value: Workspace[K]): Promise<void> {
+  try {
+    const transaction = (await getDatabase()).transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(value, key);
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } catch {
+    // Kept for this session only
+  }
+}
+
+// Removes everything the app has stored in this browser: the workspace, the
+// upload history, mapping profiles, asset metadata, rule sets, the trained
+// model and preferences
+export async function clearLocalData(): Promise<void> {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(LOCAL_STORAGE_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch {
+    // Nothing to remove when storage is unavailable
+  }
+
+  try {
+    if (database) (await database).close();
+  } catch {
+    // The database never opened, so there is nothing to close
+  }
+  database = null;
+
+  try {
+    await requestResult(indexedDB.deleteDatabase(DATABASE_NAME));
+  } catch {
+    // Nothing was stored
+  }
+}
@@ -0,0 +1,231 @@
+import { formatCsvRow } from './csv';
+import { ZipArchive } from './zip';
+
+// Reads Excel workbooks (.xlsx) in the browser. Cells come out as the text a
+// CSV export of the sheet would contain, and date cells as wall-clock
+// timestamps ("2024-03-01 08:00:00"), so a sheet can be handed to the CSV
+// import as-is.
+
+export interface WorkbookSheet {
+  name: string;
+  // Part name of the sheet XML inside the archive, e.g. "xl/worksheets/sheet1.xml"
+  path: string;
+}
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+// Days between Excel's epoch and 1970-01-01 in the 1900 and 1904 date systems
+const EPOCH_OFFSET_1900 = 25569;
+const EPOCH_OFFSET_1904 = 24107;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(tag);
+  return match ? decodeEntities(match[1] ?? match[2]) : undefined;
+}
+
+// Text of all <t> elements, as in shared strings and inline strings. Phonetic
+// runs (<rPh>) are reading aids, not part of the value.
+function textContent(xml: string): string {
+  let text = '';
+  const pattern = /<t\b[^>]*>([\s\S]*?)<\/t>/g;
+  const stripped = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  for (let match = pattern.exec(stripped); match; match = pattern.exec(stripped)) {
+    text += decodeEntities(match[1]);
+  }
+  return text;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Quoted literals, bracketed colors and conditions and escaped characters are not date tokens
+  const tokens = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dmyhs]/i.test(tokens);
+}
+
+// Column index from a cell reference such as "AB12"
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const ch of reference) {
+    const code = ch.toUpperCase().charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, '0');
+}
+
+export class Workbook {
+  readonly sheets: WorkbookSheet[];
+  private readonly archive: ZipArchive;
+  private readonly sharedStrings: string[];
+  private readonly dateStyles: Set<number>;
+  private readonly epochOffset: number;
+
+  private constructor(
+    archive: ZipArchive,
+    sheets: WorkbookSheet[],
+    sharedStrings: string[],
+    dateStyles: Set<number>,
+    epochOffset: number
+  ) {
+    this.archive = archive;
+    this.sheets = sheets;
+    this.sharedStrings = sharedStrings;
+    this.dateStyles = dateStyles;
+    this.epochOffset = epochOffset;
+  }
+
+  static isWorkbook(archive: ZipArchive): boolean {
+    return archive.find('xl/workbook.xml') !== undefined;
+  }
+
+  static async open(file: Blob): Promise<Workbook> {
+    return Workbook.fromArchive(await ZipArchive.open(file));
+  }
+
+  static async fromArchive(archive: ZipArchive): Promise<Workbook> {
+    if (!Workbook.isWorkbook(archive)) {
+      throw new Error('Not an Excel workbook: xl/workbook.xml is missing');
+    }
+
+    const workbook = await archive.readText('xl/workbook.xml');
+    const relationships = await archive.readText('xl/_rels/workbook.xml.rels');
+    const targets = new Map<string, string>();
+    for (const tag of relationships.match(/<Relationship\b[^>]*>/g) ?? []) {
+      const id = attribute(tag, 'Id');
+      const target = attribute(tag, 'Target');
+      if (id && target) {
+        targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+      }
+    }
+
+    const sheets: WorkbookSheet[] = [];
+    for (const tag of workbook.match(/<sheet\b[^>]*>/g) ?? []) {
+      const name = attribute(tag, 'name');
+      const id = /\s\w+:id\s*=\s*"([^"]*)"/.exec(tag)?.[1];
+      const path = id ? targets.get(id) : undefined;
+      if (name && path && archive.find(path)) sheets.push({ name, path });
+    }
+    if (sheets.length === 0) {
+      throw new Error('The workbook does not contain any worksheets');
+    }
+
+    const sharedStrings: string[] = [];
+    if (archive.find('xl/sharedStrings.xml')) {
+      const xml = await archive.readText('xl/sharedStrings.xml');
+      for (const item of xml.match(/<si\b[^>]*>[\s\S]*?<\/si>/g) ?? []) {
+        sharedStrings.push(textContent(item));
+      }
+    }
+
+    const dateStyles = new Set<number>();
+    if (archive.find('xl/styles.xml')) {
+      const styles = await archive.readText('xl/styles.xml');
+      const customDateFormats = new Set<number>();
+      for (const tag of styles.match(/<numFmt\b[^>]*>/g) ?? []) {
+        const code = attribute(tag, 'formatCode');
+        if (code && isDateFormatCode(code)) customDateFormats.add(Number(attribute(tag, 'numFmtId')));
+      }
+      const cellFormats = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(styles)?.[1] ?? '';
+      (cellFormats.match(/<xf\b[^>]*>/g) ?? []).forEach((tag, index) => {
+        const formatId = Number(attribute(tag, 'numFmtId') ?? 0);
+        if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+      });
+    }
+
+    const date1904 = /<workbookPr\b[^>]*\sdate1904\s*=\s*"(1|true)"/.test(workbook);
+    return new Workbook(archive, sheets, sharedStrings, dateStyles, date1904 ? EPOCH_OFFSET_1904 : EPOCH_OFFSET_1900);
+  }
+
+  // Rows of cell text, indexed from the sheet's first row. Rows and cells the
+  // sheet leaves out come back empty so positions match Excel's row numbers.
+  async readSheet(sheet: WorkbookSheet): Promise<string[][]> {
+    const xml = await this.archive.readText(sheet.path);
+    const data = /<sheetData\b[^>]*>([\s\S]*?)<\/sheetData>/.exec(xml)?.[1] ?? '';
+
+    const rows: string[][] = [];
+    const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+    for (let row = rowPattern.exec(data); row; row = rowPattern.exec(data)) {
+      const rowNumber = Number(attribute(row[1], 'r') ?? rows.length + 1);
+      const cells: string[] = [];
+      const content = row[2] ?? '';
+
+      cellPattern.lastIndex = 0;
+      for (let cell = cellPattern.exec(content); cell; cell = cellPattern.exec(content)) {
+        const reference = attribute(cell[1], 'r');
+        const index = reference ? columnIndex(reference) : cells.length;
+        while (cells.length < index) cells.push('');
+        cells[index] = this.cellText(cell[1], cell[2] ?? '');
+      }
+
+      while (rows.length < rowNumber - 1) rows.push([]);
+      rows[rowNumber - 1] = cells;
+    }
+
+    return rows;
+  }
+
+  private cellText(attributes: string, content: string): string {
+    const type = attribute(attributes, 't');
+    const raw = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(content)?.[1];
+    const value = raw === undefined ? '' : decodeEntities(raw);
+
+    switch (type) {
+      case 's':
+        return this.sharedStrings[Number(value)] ?? '';
+      case 'inlineStr':
+        return textContent(content);
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      case 'str':
+      case 'e':
+      case 'd':
+        return value;
+      default: {
+        const style = Number(attribute(attributes, 's') ?? -1);
+        return value !== '' && this.dateStyles.has(style) ? this.serialToTimestamp(Number(value)) : value;
+      }
+    }
+  }
+
+  // Excel stores dates as days since its epoch with no time zone, so they are
+  // written as wall-clock time
+  private serialToTimestamp(serial: number): string {
+    if (!isFinite(serial)) return '';
+    const date = new Date(Math.round((serial - this.epochOffset) * 86400) * 1000);
+    const day = `${pad(date.getUTCFullYear(), 4)}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+    if (Number.isInteger(serial)) return day;
+    return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  }
+}
+
+// Writes a sheet as CSV starting at the header row. The rows above it become
+// blank lines, which the CSV reader skips, so line numbers in validation
+// messages still match the sheet's row numbers.
+export function sheetToCsv(rows: string[][], headerRow: number): string {
+  const lines = rows.map((cells, index) => {
+    if (index < headerRow - 1 || cells.every(cell => cell.trim() === '')) return '';
+    // Line breaks inside cells would shift the line numbers
+    return formatCsvRow(cells.map(cell => cell.replace(/\r\n|\r|\n/g, ' ')));
+  });
+  return lines.join('\n');
+}
@@ -0,0 +1,142 @@
+// Minimal ZIP reader for .xlsx workbooks and zipped uploads. Reads the central
+// directory from the end of the file and inflates entries with the browser's
+// DecompressionStream, so entries can be streamed without loading the archive.
+
+export interface ZipEntry {
+  name: string;
+  // 0 = stored, 8 = deflate
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes plus a comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const nameDecoder = new TextDecoder('utf-8');
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// Local file signature at the start of every ZIP, including .xlsx workbooks
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+// Stored bytes of an entry, still compressed. Takes the archive and entry
+// separately so a worker can read an entry listed on the main thread.
+export async function readZipEntryData(archive: Blob, entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+  // The local header repeats the name and may carry a different extra field
+  const header = await readBytes(archive, entry.localHeaderOffset, entry.localHeaderOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error(`Corrupt ZIP entry: ${entry.name}`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  return archive.slice(dataStart, dataStart + entry.compressedSize).stream();
+}
+
+export function inflateZipEntry(data: ReadableStream, entry: ZipEntry): ReadableStream<Uint8Array> {
+  switch (entry.method) {
+    case 0:
+      return data;
+    case 8:
+      return data.pipeThrough(new DecompressionStream('deflate-raw'));
+    default:
+      throw new Error(`Unsupported ZIP compression method ${entry.method} in ${entry.name}`);
+  }
+}
+
+export class ZipArchive {
+  readonly entries: ZipEntry[];
+  private readonly blob: Blob;
+
+  private constructor(blob: Blob, entries: ZipEntry[]) {
+    this.blob = blob;
+    this.entries = entries;
+  }
+
+  static async open(blob: Blob): Promise<ZipArchive> {
+    const tailStart = Math.max(0, blob.size - MAX_END_RECORD_SEARCH);
+    const tail = await readBytes(blob, tailStart, blob.size);
+
+    let endRecord = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+      if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+        endRecord = i;
+        break;
+      }
+    }
+    if (endRecord < 0) {
+      throw new Error('Not a valid ZIP archive');
+    }
+
+    const entryCount = tail.getUint16(endRecord + 10, true);
+    const directorySize = tail.getUint32(endRecord + 12, true);
+    const directoryOffset = tail.getUint32(endRecord + 16, true);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+      const flags = directory.getUint16(offset + 8, true);
+      const nameLength = directory.getUint16(offset + 28, true);
+      const extraLength = directory.getUint16(offset + 30, true);
+      const commentLength = directory.getUint16(offset + 32, true);
+      const name = nameDecoder.decode(
+        new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength)
+      );
+
+      if (flags & 0x1) {
+        throw new Error(`Encrypted ZIP entries are not supported: ${name}`);
+      }
+
+      entries.push({
+        name,
+        method: directory.getUint16(offset + 10, true),
+        compressedSize: directory.getUint32(offset + 20, true),
+        size: directory.getUint32(offset + 24, true),
+        localHeaderOffset: directory.getUint32(offset + 42, true)
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipArchive(blob, entries);
+  }
+
+  find(name: string): ZipEntry | undefined {
+    return this.entries.find(entry => entry.name === name);
+  }
+
+  // Decompressed contents of an entry
+  async stream(entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+    return inflateZipEntry(await readZipEntryData(this.blob, entry), entry);
+  }
+
+  async read(entry: ZipEntry): Promise<Uint8Array> {
+    return new Uint8Array(await new Response(await this.stream(entry)).arrayBuffer());
+  }
+
+  async readText(name: string): Promise<string> {
+    const entry = this.find(name);
+    if (!entry) {
+      throw new Error(`Missing ${name} in archive`);
+    }
+    return nameDecoder.decode(await this.read(entry));
+  }
+}
@@ -0,0 +1,150 @@
+import type { MachineData } from '../App';
+import { UploadSource, openSource, sourceSize } from '../utils/archives';
+import { ImportOptions } from '../utils/formatDetection';
+import { MachineDataReader, ParseResult, ParseSettings, RawMachineRow, createRecordTokenizer } from '../utils/parsers';
+import { RejectedRow } from '../utils/validation';
+import { groupReadings } from '../utils/timeSeries';
+import { ScoringSettings, riskModelFor } from '../utils/riskModels';
+import { ContentHasher } from '../utils/contentHash';
+import { FailureModel, TrainingOptions, TrainingSet, trainFailureModel } from '../utils/failureModel';
+
+// Parses and scores uploads off the main thread. Files are streamed in chunks
+// and decompressed on the fly, so memory follows the parsed rows rather than
+// the size of the upload. Failure models are trained here too, as gradient
+// descent over a long history would hold up the page.
+
+// Every request carries the scoring engine with its rule sets or model, as the
+// worker cannot read the page's storage
+export type ImportRequest =
+  | { type: 'parse'; sources: UploadSource[]; options: ImportOptions; settings: ParseSettings; scoring: ScoringSettings }
+  // Rows accepted after the validation report, with the hash of the file they
+  // came from; rows without one, such as generated fleets, are hashed themselves
+  | { type: 'score'; rows: RawMachineRow[]; hash?: string; scoring: ScoringSettings }
+  | { type: 'train'; set: TrainingSet; options: TrainingOptions; name: string };
+
+export type ImportResponse =
+  | { type: 'progress'; bytesRead: number; totalBytes: number; rowCount: number }
+  | { type: 'scoring'; rowCount: number; scoredRows: number }
+  | { type: 'training'; epochs: number; completedEpochs: number }
+  | { type: 'needsReview'; rows: RawMachineRow[]; rejected: RejectedRow[]; hash: string }
+  // hash identifies the uploaded content, so repeated uploads can be recognized
+  | { type: 'done'; data: MachineData[]; hash: string }
+  | { type: 'trained'; model: FailureModel }
+  | { type: 'error'; message: string };
+
+// Progress is posted at most this often so the page does not re-render per chunk
+const PROGRESS_INTERVAL_MS = 100;
+
+const worker = self as unknown as Worker;
+
+function post(response: ImportResponse) {
+  worker.postMessage(response);
+}
+
+async function parse(
+  sources: UploadSource[],
+  options: ImportOptions,
+  settings: ParseSettings
+): Promise<ParseResult & { hash: string }> {
+  const hasher = new ContentHasher();
+  const reader = new MachineDataReader(options, settings);
+  const totalBytes = sources.reduce((total, source) => total + sourceSize(source), 0);
+  let bytesRead = 0;
+  let lastProgress = 0;
+
+  const reportProgress = (force = false) => {
+    const now = performance.now();
+    if (force || now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: 'progress', bytesRead, totalBytes, rowCount: reader.rowCount });
+    }
+  };
+
+  // Files of an archive are read one after another into the same dataset
+  for (const source of sources) {
+    try {
+      reader.beginSource(source.name);
+      const tokenizer = createRecordTokenizer(options, settings);
+      const decoder = new TextDecoder(options.encoding);
+      const stream = (await openSource(source, count => { bytesRead += count; })).getReader();
+
+      for (;;) {
+        const { done, value } = await stream.read();
+        if (done) break;
+        hasher.update(value);
+        reader.push(tokenizer.push(decoder.decode(value, { stream: true })));
+        reportProgress();
+      }
+
+      reader.push(tokenizer.push(decoder.decode()));
+      reader.push(tokenizer.finish());
+    } catch (err) {
+      if (sources.length === 1) throw err;
+      throw new Error(`${source.name}: ${err instanceof Error ? err.message : 'Failed to read file'}`);
+    }
+  }
+
+  reportProgress(true);
+  return { ...reader.finish(), hash: hasher.digest() };
+}
+
+// Row by row, so large generated fleets are never serialized in one piece
+function hashRows(rows: RawMachineRow[]): string {
+  const hasher = new ContentHasher();
+  for (const row of rows) hasher.updateText(JSON.stringify(row) + '\n');
+  return hasher.digest();
+}
+
+// Machines are scored one at a time so progress can follow the rows scored
+function score(rows: RawMachineRow[], scoring: ScoringSettings): MachineData[] {
+  const model = riskModelFor(scoring);
+  const series = groupReadings(rows);
+  const data: MachineData[] = [];
+  let scoredRows = 0;
+  let lastProgress = performance.now();
+  post({ type: 'scoring', rowCount: rows.length, scoredRows });
+
+  for (const machine of series) {
+    data.push(...model.score([machine]));
+    scoredRows += machine.readings.length;
+    const now = performance.now();
+    if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: 'scoring', rowCount: rows.length, scoredRows });
+    }
+  }
+  return data;
+}
+
+function train({ set, options, name }: Extract<ImportRequest, { type: 'train' }>): FailureModel {
+  let lastProgress = performance.now();
+  return trainFailureModel(set, options, name, (completedEpochs) => {
+    const now = performance.now();
+    if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: 'training', epochs: options.epochs, completedEpochs });
+    }
+  });
+}
+
+worker.onmessage = async (event: MessageEvent<ImportRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'parse') {
+      const { rows, rejected, hash } = await parse(request.sources, request.options, request.settings);
+      // Problem rows go back to the page for review before anything is scored
+      if (rejected.length > 0) {
+        post({ type: 'needsReview', rows, rejected, hash });
+        return;
+      }
+      post({ type: 'done', data: score(rows, request.scoring), hash });
+    } else if (request.type === 'train') {
+      post({ type: 'trained', model: train(request) });
+    } else {
+      const hash = request.hash ?? hashRows(request.rows);
+      post({ type: 'done', data: score(request.rows, request.scoring), hash });
+    }
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to process file' });
+  }
+};